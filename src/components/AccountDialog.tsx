@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Lock, Mail, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "sonner";
+
+type AccountMode = 'sign-in' | 'sign-up';
+
+interface AccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Supabase Auth rejects shorter passwords by default
+const MIN_PASSWORD_LENGTH = 6;
+
+/** Sign in or create a user account, which is what saving to My Memes needs */
+export const AccountDialog = ({ open, onOpenChange }: AccountDialogProps) => {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<AccountMode>('sign-in');
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setPassword("");
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email || !password) {
+      toast.error("Please enter email and password");
+      return;
+    }
+    if (mode === 'sign-up' && password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      if (mode === 'sign-in') {
+        const { error } = await signIn(email, password);
+        if (error) {
+          toast.error("Invalid credentials");
+          console.error('Auth error:', error);
+          return;
+        }
+        toast.success("Signed in");
+      } else {
+        const { error, confirmEmail } = await signUp(email, password);
+        if (error) {
+          toast.error(error.message || "Failed to create account");
+          console.error('Auth error:', error);
+          return;
+        }
+        toast.success(confirmEmail ? "Check your email to confirm your account" : "Account created");
+      }
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error("Authentication failed");
+      console.error('Auth error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserRound className="w-5 h-5" />
+            {mode === 'sign-in' ? "Sign in" : "Create account"}
+          </DialogTitle>
+          <DialogDescription>
+            An account keeps the memes you save under My Memes, on any device.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AccountMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+            <TabsTrigger value="sign-up">Create account</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="account-email">Email</Label>
+            <div className="relative mt-1">
+              <Mail className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="account-email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Enter email"
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="account-password">Password</Label>
+            <div className="relative mt-1">
+              <Lock className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="account-password"
+                type="password"
+                autoComplete={mode === 'sign-in' ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={mode === 'sign-in' ? "Enter password" : `At least ${MIN_PASSWORD_LENGTH} characters`}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={loading} className="w-full btn-gradient text-primary-foreground">
+            {loading ? "Please wait..." : mode === 'sign-in' ? "Sign in" : "Create account"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
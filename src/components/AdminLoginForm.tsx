@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Lock, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface AdminLoginFormProps {
+  submitLabel?: string;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+// Email/password sign-in against Supabase Auth
+export const AdminLoginForm = ({ submitLabel = "Login as Admin", onSuccess, onCancel }: AdminLoginFormProps) => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email || !password) {
+      toast.error("Please enter email and password");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { error } = await signIn(email, password);
+
+      if (error) {
+        toast.error("Invalid credentials");
+        console.error('Auth error:', error);
+        return;
+      }
+
+      setPassword("");
+
+      const { data: isAdmin, error: roleError } = await supabase.rpc('is_admin');
+      if (roleError || !isAdmin) {
+        toast.error("This account does not have admin access");
+        if (roleError) console.error('Error:', roleError);
+        return;
+      }
+
+      toast.success("Admin access granted!");
+      onSuccess?.();
+    } catch (error) {
+      toast.error("Authentication failed");
+      console.error('Auth error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleLogin} className="space-y-4">
+      <div>
+        <Label htmlFor="admin-email">Email</Label>
+        <div className="relative mt-1">
+          <Mail className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+          <Input
+            id="admin-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Enter email"
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="admin-password">Password</Label>
+        <div className="relative mt-1">
+          <Lock className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+          <Input
+            id="admin-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Enter password"
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2 pt-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} className="flex-1">
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          disabled={loading}
+          className="flex-1 btn-gradient text-primary-foreground"
+        >
+          {loading ? "Authenticating..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -1,59 +1,81 @@
 import { useState } from "react";
-import { X, User, Lock } from "lucide-react";
+import { X, Lock, Plus, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
 import { toast } from "sonner";
 import { TemplateCreator } from "./TemplateCreator";
+import { TemplateMigrationPanel } from "./TemplateMigrationPanel";
+import { TemplateManager } from "./TemplateManager";
+import { Template } from "./Dashboard";
+import { AdminLoginForm } from "./AdminLoginForm";
 
 interface AdminPanelProps {
   onClose: () => void;
 }
 
 export const AdminPanel = ({ onClose }: AdminPanelProps) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [username, setUsername] = useState("");
-  const [password, setPassword] = useState("");
-  const [loading, setLoading] = useState(false);
-
-  const handleLogin = async () => {
-    if (!username || !password) {
-      toast.error("Please enter username and password");
-      return;
-    }
+  const { session, user, isAdmin, loading, signOut } = useAuth();
+  const [showTemplateCreator, setShowTemplateCreator] = useState(false);
+  const [templateToUpdate, setTemplateToUpdate] = useState<Template | null>(null);
+  // Bumped after the creator saves so the console refetches
+  const [templatesVersion, setTemplatesVersion] = useState(0);
 
+  const handleSignOut = async () => {
     try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('admin_credentials')
-        .select('*')
-        .eq('username', username)
-        .single();
-
-      if (error || !data) {
-        toast.error("Invalid credentials");
-        return;
-      }
-
-      // Simple password check (in production, use proper password hashing)
-      if (password === 'admin123') {
-        setIsAuthenticated(true);
-        toast.success("Admin access granted!");
-      } else {
-        toast.error("Invalid credentials");
-      }
+      await signOut();
+      toast.success("Signed out");
     } catch (error) {
-      toast.error("Authentication failed");
+      toast.error("Failed to sign out");
       console.error('Auth error:', error);
-    } finally {
-      setLoading(false);
     }
   };
 
-  // If authenticated, show the template creator
-  if (isAuthenticated) {
-    return <TemplateCreator onClose={onClose} />;
+  if (isAdmin && (showTemplateCreator || templateToUpdate)) {
+    return (
+      <TemplateCreator
+        template={templateToUpdate ?? undefined}
+        onClose={() => {
+          setShowTemplateCreator(false);
+          setTemplateToUpdate(null);
+        }}
+        onSaved={() => setTemplatesVersion(version => version + 1)}
+      />
+    );
+  }
+
+  // If signed in as an admin, show the admin tools
+  if (isAdmin) {
+    return (
+      <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+        <div className="bg-card rounded-xl border border-border w-full max-w-5xl max-h-[90vh] flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-border">
+            <div>
+              <h2 className="text-xl font-bold">Admin Panel</h2>
+              <p className="text-xs text-muted-foreground">{user?.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={handleSignOut} title="Sign out">
+                <LogOut className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <Button
+              onClick={() => setShowTemplateCreator(true)}
+              className="btn-gradient text-primary-foreground"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create Template
+            </Button>
+            <TemplateManager key={templatesVersion} onEditLayout={setTemplateToUpdate} />
+            <TemplateMigrationPanel />
+          </div>
+        </div>
+      </div>
+    );
   }
 
   // Otherwise show the login form
@@ -69,60 +91,28 @@ export const AdminPanel = ({ onClose }: AdminPanelProps) => {
         </div>
 
         <div className="p-6">
-          {/* Login Form */}
-          <div className="space-y-4">
-            <div className="text-center mb-6">
-              <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-3">
-                <Lock className="w-8 h-8 text-primary" />
-              </div>
-              <h3 className="text-lg font-semibold">Admin Authentication</h3>
-              <p className="text-sm text-muted-foreground">
-                Enter your admin credentials to continue
-              </p>
-            </div>
-
-            <div>
-              <Label htmlFor="admin-username">Username</Label>
-              <div className="relative mt-1">
-                <User className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="admin-username"
-                  type="text"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  placeholder="Enter username"
-                  className="pl-10"
-                />
-              </div>
-            </div>
-
-            <div>
-              <Label htmlFor="admin-password">Password</Label>
-              <div className="relative mt-1">
-                <Lock className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="admin-password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="Enter password"
-                  className="pl-10"
-                />
-              </div>
+          <div className="text-center mb-6">
+            <div className="w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Lock className="w-8 h-8 text-primary" />
             </div>
+            <h3 className="text-lg font-semibold">Admin Authentication</h3>
+            <p className="text-sm text-muted-foreground">
+              {loading ? "Checking session..." : "Sign in with your admin account to continue"}
+            </p>
+          </div>
 
-            <Button
-              onClick={handleLogin}
-              disabled={loading}
-              className="w-full btn-gradient text-primary-foreground"
-            >
-              {loading ? "Authenticating..." : "Login as Admin"}
-            </Button>
-
-            <div className="text-xs text-muted-foreground text-center">
-              Default credentials: admin / admin123
+          {!loading && session && (
+            <div className="space-y-3 text-center">
+              <p className="text-sm text-destructive">
+                {user?.email} does not have admin access.
+              </p>
+              <Button variant="outline" onClick={handleSignOut} className="w-full">
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign in with another account
+              </Button>
             </div>
-          </div>
+          )}
+          {!loading && !session && <AdminLoginForm />}
         </div>
       </div>
     </div>
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group as GroupIcon,
+  Ungroup,
+} from "lucide-react";
+import { Canvas as FabricCanvas, FabricObject } from "fabric";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlignEdge, alignObjects, ArrangeFrame, DistributeAxis, distributeObjects } from "@/lib/arrange";
+import { HistoryCommand } from "@/lib/history";
+
+interface ArrangePanelProps {
+  canvas: FabricCanvas;
+  objects: FabricObject[];
+  canGroup: boolean;
+  canUngroup: boolean;
+  onGroup: () => void;
+  onUngroup: () => void;
+  /** Receives the undo command for every change */
+  onCommand: (command: HistoryCommand) => void;
+  /** Called after objects move so the editor can resync derived state */
+  onChange?: () => void;
+}
+
+const ALIGN_OPTIONS: { edge: AlignEdge; label: string; icon: typeof AlignStartVertical }[] = [
+  { edge: 'left', label: 'Align left', icon: AlignStartVertical },
+  { edge: 'centerX', label: 'Align center', icon: AlignCenterVertical },
+  { edge: 'right', label: 'Align right', icon: AlignEndVertical },
+  { edge: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { edge: 'centerY', label: 'Align middle', icon: AlignCenterHorizontal },
+  { edge: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_OPTIONS: { axis: DistributeAxis; label: string; icon: typeof AlignStartVertical }[] = [
+  { axis: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter },
+];
+
+/** Group, align and distribute controls for the current selection */
+export const ArrangePanel = ({
+  canvas,
+  objects,
+  canGroup,
+  canUngroup,
+  onGroup,
+  onUngroup,
+  onCommand,
+  onChange,
+}: ArrangePanelProps) => {
+  const [frame, setFrame] = useState<ArrangeFrame>('selection');
+  const isMultiple = objects.length > 1;
+  // A single object has nothing else to line up with
+  const activeFrame: ArrangeFrame = isMultiple ? frame : 'canvas';
+
+  const apply = (command: HistoryCommand | null) => {
+    if (!command) return;
+    onCommand(command);
+    onChange?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      {(canGroup || canUngroup) && (
+        <div className="flex gap-2">
+          {canGroup && (
+            <Button variant="outline" size="sm" className="flex-1" onClick={onGroup}>
+              <GroupIcon className="w-4 h-4 mr-2" />
+              Group
+            </Button>
+          )}
+          {canUngroup && (
+            <Button variant="outline" size="sm" className="flex-1" onClick={onUngroup}>
+              <Ungroup className="w-4 h-4 mr-2" />
+              Ungroup
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Align to</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={activeFrame}
+            onValueChange={(value: ArrangeFrame) => value && setFrame(value)}
+            disabled={!isMultiple}
+          >
+            <ToggleGroupItem value="selection" className="h-7 px-2 text-xs">Selection</ToggleGroupItem>
+            <ToggleGroupItem value="canvas" className="h-7 px-2 text-xs">Canvas</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {ALIGN_OPTIONS.map(({ edge, label, icon: Icon }) => (
+            <Button
+              key={edge}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              aria-label={label}
+              title={label}
+              onClick={() => apply(alignObjects(canvas, objects, edge, activeFrame))}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+          {isMultiple && DISTRIBUTE_OPTIONS.map(({ axis, label, icon: Icon }) => (
+            <Button
+              key={axis}
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              aria-label={label}
+              title={label}
+              onClick={() => apply(distributeObjects(canvas, objects, axis, activeFrame))}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
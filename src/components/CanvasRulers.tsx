@@ -0,0 +1,66 @@
+interface CanvasRulersProps {
+  /** On-screen size of the canvas */
+  width: number;
+  height: number;
+  /** On-screen pixels per output pixel; labels read in output pixels */
+  zoom: number;
+}
+
+const RULER_SIZE = 20;
+// Closest two minor ticks may come on screen
+const MIN_TICK_GAP = 8;
+// Minor tick steps in output pixels; every fifth tick is labelled
+const TICK_STEPS = [2, 5, 10, 20, 50, 100, 200, 500];
+
+const getTicks = (length: number, zoom: number) => {
+  const step = TICK_STEPS.find((candidate) => candidate * zoom >= MIN_TICK_GAP) ?? TICK_STEPS[TICK_STEPS.length - 1];
+  const count = Math.floor(length / zoom / step) + 1;
+  return Array.from({ length: count }, (_, i) => ({
+    value: i * step,
+    offset: Math.round(i * step * zoom),
+    major: i % 5 === 0,
+  }));
+};
+
+/**
+ * Rulers along the top and left of the canvas. Place inside the relatively positioned
+ * wrapper around the canvas; they sit in the space just outside it.
+ */
+export const CanvasRulers = ({ width, height, zoom }: CanvasRulersProps) => (
+  <>
+    <svg
+      className="absolute left-0 pointer-events-none text-muted-foreground"
+      style={{ top: -RULER_SIZE }}
+      width={width}
+      height={RULER_SIZE}
+      aria-hidden
+    >
+      {getTicks(width, zoom).map(({ value, offset: x, major }) => (
+        <g key={value}>
+          <line x1={x + 0.5} x2={x + 0.5} y1={major ? 4 : 13} y2={RULER_SIZE} stroke="currentColor" />
+          {major && (
+            <text x={x + 3} y={10} fontSize={9} fill="currentColor">{value}</text>
+          )}
+        </g>
+      ))}
+    </svg>
+    <svg
+      className="absolute top-0 pointer-events-none text-muted-foreground"
+      style={{ left: -RULER_SIZE }}
+      width={RULER_SIZE}
+      height={height}
+      aria-hidden
+    >
+      {getTicks(height, zoom).map(({ value, offset: y, major }) => (
+        <g key={value}>
+          <line x1={major ? 4 : 13} x2={RULER_SIZE} y1={y + 0.5} y2={y + 0.5} stroke="currentColor" />
+          {major && (
+            <text x={10} y={y + 3} fontSize={9} fill="currentColor" transform={`rotate(-90 10 ${y + 3})`} textAnchor="end">
+              {value}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  </>
+);
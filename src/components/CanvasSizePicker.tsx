@@ -0,0 +1,86 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CANVAS_PRESETS, clampCanvasSide, findCanvasPreset, MAX_CANVAS_SIZE, MIN_CANVAS_SIZE } from "@/lib/canvasPresets";
+import { CanvasSize } from "@/lib/viewport";
+
+interface CanvasSizePickerProps {
+  value: CanvasSize;
+  onChange: (size: CanvasSize) => void;
+  disabled?: boolean;
+}
+
+const CUSTOM = 'custom';
+
+// Commits on Enter or blur, so a half-typed size never resizes the canvas
+const SideField = ({
+  label,
+  value,
+  onCommit,
+  disabled,
+}: {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  disabled?: boolean;
+}) => (
+  <div>
+    <Label className="text-xs text-muted-foreground">{label} (px)</Label>
+    <Input
+      key={value}
+      type="number"
+      min={MIN_CANVAS_SIZE}
+      max={MAX_CANVAS_SIZE}
+      defaultValue={value}
+      disabled={disabled}
+      onBlur={(e) => {
+        const next = parseFloat(e.target.value);
+        if (!Number.isFinite(next)) {
+          e.target.value = String(value);
+          return;
+        }
+        const clamped = clampCanvasSide(next);
+        e.target.value = String(clamped);
+        if (clamped !== value) onCommit(clamped);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="h-8 text-xs mt-1"
+    />
+  </div>
+);
+
+/** Preset picker plus exact width and height for a template's output resolution */
+export const CanvasSizePicker = ({ value, onChange, disabled }: CanvasSizePickerProps) => {
+  const preset = findCanvasPreset(value);
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={preset?.id ?? CUSTOM}
+        onValueChange={(id) => {
+          const next = CANVAS_PRESETS.find((candidate) => candidate.id === id);
+          if (next) onChange({ width: next.width, height: next.height });
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="mt-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CANVAS_PRESETS.map(({ id, label, width, height }) => (
+            <SelectItem key={id} value={id}>
+              {label} · {width}×{height}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom size</SelectItem>
+        </SelectContent>
+      </Select>
+      <div className="grid grid-cols-2 gap-2">
+        <SideField label="Width" value={value.width} onCommit={(width) => onChange({ ...value, width })} disabled={disabled} />
+        <SideField label="Height" value={value.height} onCommit={(height) => onChange({ ...value, height })} disabled={disabled} />
+      </div>
+    </div>
+  );
+};
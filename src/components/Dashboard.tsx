@@ -1,39 +1,246 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useLocation, useMatch, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Sidebar } from "./Sidebar";
 import { TemplateGrid } from "./TemplateGrid";
 import { MemeEditor } from "./MemeEditor";
 import { TemplateCreator } from "./TemplateCreator";
+import { AdminPanel } from "./AdminPanel";
+import { AccountDialog } from "./AccountDialog";
+import { fetchTemplate, templateQueryKey, useTemplate } from "@/hooks/use-template";
+import { TEMPLATE_TAGS_QUERY_KEY, TEMPLATES_QUERY_KEY } from "@/hooks/use-templates";
+import { MEME_DRAFTS_QUERY_KEY, useMemeDrafts } from "@/hooks/use-meme-drafts";
+import { deleteUserMeme, USER_MEMES_QUERY_KEY, UserMeme, UserMemeSummary, useUserMeme, useUserMemes } from "@/hooks/use-user-memes";
+import { useAuth } from "@/hooks/use-auth";
+import { deleteDraft, getDraftKey, MemeDraftSummary } from "@/lib/drafts";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
 
 export interface Template {
   id: string;
   name: string;
   type: 'photo' | 'video';
-  layout_definition: any;
+  // Raw JSONB value, possibly a legacy format; read it through loadLayoutDefinition
+  layout_definition: Json;
   thumbnail_url?: string;
   tags?: string[];
+  use_count?: number;
+  /** Set on copies made with Resize to…, pointing at the template they came from */
+  source_template_id?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Grid cards are fetched without the layout, which is loaded when a template is opened
+export type TemplateSummary = Omit<Template, 'layout_definition'>;
+
+// A saved meme whose template was deleted still opens, resetting to its own layout
+const memeAsTemplate = (meme: UserMeme): Template => ({
+  id: meme.template_id ?? meme.id,
+  name: meme.name,
+  type: meme.type,
+  layout_definition: meme.layout_definition,
+  thumbnail_url: meme.thumbnail_url ?? undefined,
+  created_at: meme.created_at,
+  updated_at: meme.updated_at,
+});
+
+const tabFromPath = (pathname: string): 'photo' | 'video' | null => {
+  if (pathname === '/photo') return 'photo';
+  if (pathname === '/video') return 'video';
+  return null;
+};
+
 export const Dashboard = () => {
-  const [activeTab, setActiveTab] = useState<'photo' | 'video'>('photo');
-  const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
-  const [showTemplateCreator, setShowTemplateCreator] = useState(false);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, loading: authLoading, signOut } = useAuth();
+  const editMatch = useMatch('/templates/:id/edit');
+  const memeMatch = useMatch('/memes/:id/edit');
+  const showTemplateCreator = location.pathname === '/create';
+  const showAdminPanel = location.pathname === '/admin';
+
+  // Overlay routes (/create, /admin) keep showing whichever tab was open underneath
+  const [activeTab, setActiveTab] = useState<'photo' | 'video'>(tabFromPath(location.pathname) ?? 'photo');
+  const [templateToUpdate, setTemplateToUpdate] = useState<Template | null>(null);
+  const [memeToDelete, setMemeToDelete] = useState<UserMemeSummary | null>(null);
+  const [showAccount, setShowAccount] = useState(false);
+
+  const memeId = memeMatch?.params.id;
+  const { data: selectedMeme, isLoading: memeLoading, error: memeError } = useUserMeme(memeId);
+  const templateId = editMatch?.params.id ?? selectedMeme?.template_id ?? undefined;
+  const { data: fetchedTemplate, isLoading: templateLoading, error: templateError } = useTemplate(templateId);
+  // Memoised so the editor, which reloads when its template changes, keeps the same object
+  const fallbackTemplate = useMemo(() => (selectedMeme ? memeAsTemplate(selectedMeme) : undefined), [selectedMeme]);
+  const selectedTemplate = fetchedTemplate ?? fallbackTemplate;
+  const { data: drafts = [] } = useMemeDrafts();
+  const { data: memes = [] } = useUserMemes();
+  // Set when the editor was opened from the drafts list
+  const resumeDraft = (location.state as { resumeDraft?: boolean } | null)?.resumeDraft === true;
+
+  useEffect(() => {
+    const tab = tabFromPath(location.pathname) ?? selectedTemplate?.type;
+    if (tab) setActiveTab(tab);
+  }, [location.pathname, selectedTemplate]);
+
+  // Go back within the app when possible so browser history stays linear
+  const goBack = (fallback: string) => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate(fallback, { replace: true });
+    }
+  };
+
+  // Drop a cached full template if the grid shows it has been changed since
+  const dropStaleTemplate = (summary: TemplateSummary) => {
+    const cached = queryClient.getQueryData<Template | null>(templateQueryKey(summary.id));
+    if (cached && cached.updated_at !== summary.updated_at) {
+      queryClient.removeQueries({ queryKey: templateQueryKey(summary.id) });
+    }
+  };
 
-  const handleEditTemplate = (template: Template) => {
-    setSelectedTemplate(template);
+  const handleEditTemplate = (summary: TemplateSummary) => {
+    dropStaleTemplate(summary);
+    navigate(`/templates/${summary.id}/edit`);
+  };
+
+  const handleEditLayout = async (summary: TemplateSummary) => {
+    dropStaleTemplate(summary);
+    try {
+      const template = await queryClient.fetchQuery({
+        queryKey: templateQueryKey(summary.id),
+        queryFn: () => fetchTemplate(summary.id),
+        staleTime: Infinity,
+      });
+      if (!template) {
+        toast.error('Template not found');
+        return;
+      }
+      setTemplateToUpdate(template);
+    } catch (error) {
+      toast.error('Failed to load template');
+      console.error('Error:', error);
+    }
   };
 
   const handleBackToGrid = () => {
-    setSelectedTemplate(null);
+    goBack(`/${selectedTemplate?.type ?? activeTab}`);
+  };
+
+  const handleTabChange = (tab: 'photo' | 'video') => {
+    navigate(`/${tab}`);
   };
 
   const handleCreateTemplate = () => {
-    setShowTemplateCreator(true);
+    navigate('/create');
   };
 
   const handleCloseTemplateCreator = () => {
-    setShowTemplateCreator(false);
+    goBack(`/${activeTab}`);
+  };
+
+  const handleOpenDraft = (draft: MemeDraftSummary) => {
+    const path = draft.memeId ? `/memes/${draft.memeId}/edit` : `/templates/${draft.templateId}/edit`;
+    navigate(path, { state: { resumeDraft: true } });
+  };
+
+  const handleDeleteDraft = async (draft: MemeDraftSummary) => {
+    try {
+      await deleteDraft(getDraftKey(draft));
+      queryClient.invalidateQueries({ queryKey: MEME_DRAFTS_QUERY_KEY });
+    } catch (error) {
+      toast.error('Failed to discard draft');
+      console.error('Error:', error);
+    }
+  };
+
+  const handleOpenMeme = (meme: UserMemeSummary) => {
+    navigate(`/memes/${meme.id}/edit`);
+  };
+
+  const handleDeleteMeme = async (meme: UserMemeSummary) => {
+    if (!user) return;
+    try {
+      await deleteUserMeme(user.id, meme.id);
+      await deleteDraft(getDraftKey({ templateId: meme.template_id ?? meme.id, memeId: meme.id }));
+      queryClient.invalidateQueries({ queryKey: USER_MEMES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: MEME_DRAFTS_QUERY_KEY });
+      toast.success(`Deleted "${meme.name}"`);
+      if (memeId === meme.id) navigate(`/${activeTab}`);
+    } catch (error) {
+      toast.error('Failed to delete meme');
+      console.error('Error:', error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      toast.success("Signed out");
+    } catch (error) {
+      toast.error("Failed to sign out");
+      console.error('Auth error:', error);
+    }
+  };
+
+  const handleTemplateSaved = () => {
+    queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: TEMPLATE_TAGS_QUERY_KEY });
+    queryClient.removeQueries({ queryKey: ['template'] });
+  };
+
+  const renderEditor = () => {
+    if (templateLoading || memeLoading || (memeId && authLoading)) {
+      return (
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading template...</p>
+          </div>
+        </div>
+      );
+    }
+
+    const loadError = templateError || memeError;
+    if (loadError || !selectedTemplate) {
+      if (loadError) console.error('Error:', loadError);
+      return (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-semibold mb-2">{memeId ? 'Meme not found' : 'Template not found'}</h3>
+          <p className="text-muted-foreground mb-4">
+            It may have been deleted, or the link is incorrect.
+          </p>
+          <Button variant="outline" onClick={() => navigate(`/${activeTab}`)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to templates
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <MemeEditor
+        key={selectedMeme?.id ?? selectedTemplate.id}
+        template={selectedTemplate}
+        savedMeme={selectedMeme}
+        onBack={handleBackToGrid}
+        resumeDraft={resumeDraft}
+      />
+    );
   };
 
   return (
@@ -41,29 +248,82 @@ export const Dashboard = () => {
       {/* Sidebar */}
       <Sidebar 
         activeTab={activeTab} 
-        onTabChange={setActiveTab}
+        onTabChange={handleTabChange}
         onCreateTemplate={handleCreateTemplate}
+        onOpenAdmin={() => navigate('/admin')}
+        drafts={drafts}
+        onOpenDraft={handleOpenDraft}
+        onDeleteDraft={handleDeleteDraft}
+        memes={user ? memes : undefined}
+        onOpenMeme={handleOpenMeme}
+        onDeleteMeme={setMemeToDelete}
+        userEmail={user?.email}
+        onSignIn={() => setShowAccount(true)}
+        onSignOut={handleSignOut}
       />
       
       {/* Main Content */}
       <main className="ml-16 p-6 min-h-screen">
-        {selectedTemplate ? (
-          <MemeEditor 
-            template={selectedTemplate} 
-            onBack={handleBackToGrid}
-          />
+        {templateId || memeId ? (
+          renderEditor()
         ) : (
           <TemplateGrid 
             type={activeTab} 
             onEditTemplate={handleEditTemplate}
+            onEditLayout={handleEditLayout}
           />
         )}
       </main>
 
       {/* Template Creator Modal */}
       {showTemplateCreator && (
-        <TemplateCreator onClose={handleCloseTemplateCreator} />
+        <TemplateCreator onClose={handleCloseTemplateCreator} onSaved={handleTemplateSaved} />
+      )}
+
+      {/* Template Editing Modal */}
+      {templateToUpdate && (
+        <TemplateCreator
+          template={templateToUpdate}
+          onClose={() => setTemplateToUpdate(null)}
+          onSaved={handleTemplateSaved}
+        />
+      )}
+
+      <AccountDialog open={showAccount} onOpenChange={setShowAccount} />
+
+      {/* Delete Saved Meme Confirmation */}
+      <AlertDialog open={!!memeToDelete} onOpenChange={(open) => !open && setMemeToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{memeToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The meme and the files you uploaded for it will be permanently removed from My Memes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (memeToDelete) handleDeleteMeme(memeToDelete);
+                setMemeToDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Admin Panel Modal */}
+      {showAdminPanel && (
+        <AdminPanel
+          onClose={() => {
+            goBack(`/${activeTab}`);
+            // Templates may have been changed from the console
+            handleTemplateSaved();
+          }}
+        />
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,73 @@
+import { Magnet } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { GRID_SIZES, GuideSettings } from "@/lib/snapping";
+
+interface GuidesMenuProps {
+  settings: GuideSettings;
+  onChange: (changes: Partial<GuideSettings>) => void;
+  /** Matches the trigger to the other header buttons */
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+}
+
+/** Header menu that toggles snapping, the grid and the rulers */
+export const GuidesMenu = ({ settings, onChange, variant = "outline", size = "icon" }: GuidesMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant={variant} size={size} title="Snapping, grid and rulers">
+        <Magnet className="w-4 h-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-52">
+      <DropdownMenuLabel>Snapping</DropdownMenuLabel>
+      <DropdownMenuCheckboxItem
+        checked={settings.snapToCanvas}
+        onCheckedChange={(checked) => onChange({ snapToCanvas: checked })}
+      >
+        Canvas edges and center
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuCheckboxItem
+        checked={settings.snapToObjects}
+        onCheckedChange={(checked) => onChange({ snapToObjects: checked })}
+      >
+        Other elements
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel>View</DropdownMenuLabel>
+      <DropdownMenuCheckboxItem
+        checked={settings.showGrid}
+        onCheckedChange={(checked) => onChange({ showGrid: checked })}
+      >
+        Grid
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuCheckboxItem
+        checked={settings.showRulers}
+        onCheckedChange={(checked) => onChange({ showRulers: checked })}
+      >
+        Rulers
+      </DropdownMenuCheckboxItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel>Grid size</DropdownMenuLabel>
+      <DropdownMenuRadioGroup
+        value={String(settings.gridSize)}
+        onValueChange={(value) => onChange({ gridSize: Number(value), showGrid: true })}
+      >
+        {GRID_SIZES.map((size) => (
+          <DropdownMenuRadioItem key={size} value={String(size)}>
+            {size}px
+          </DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
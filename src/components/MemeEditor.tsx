@@ -1,25 +1,74 @@
-import { useEffect, useRef, useState } from "react";
-import { ArrowLeft, Download, Type, Square, Circle, RotateCcw, Upload, Trash2, AlignLeft, Layers, Image as ImageIcon, Video, Play, Pause } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowLeft, Download, Save, Type, Square, Circle, RotateCcw, Upload, Trash2, AlignLeft, Layers, Image as ImageIcon, ImagePlus, Video, Play, Pause, Undo2, Redo2, Maximize, Lock, Keyboard, Group as GroupIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Template } from "./Dashboard";
-import { Canvas as FabricCanvas, Textbox, Rect, Circle as FabricCircle, FabricImage } from "fabric";
+import { ActiveSelection, Canvas as FabricCanvas, Textbox, Rect, Circle as FabricCircle, FabricImage, FabricObject, Group, TPointerEventInfo } from "fabric";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
 import { arrayMove, SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useVideoExport } from "@/hooks/use-video-export";
+import { VideoExportDialog } from "./VideoExportDialog";
+import { TextInspector } from "./TextInspector";
+import { ShortcutsDialog } from "./ShortcutsDialog";
+import { AccountDialog } from "./AccountDialog";
+import { GuidesMenu } from "./GuidesMenu";
+import { CanvasRulers } from "./CanvasRulers";
+import { ArrangePanel } from "./ArrangePanel";
+import { ObjectInspector } from "./ObjectInspector";
+import { useCanvasHistory } from "@/hooks/use-canvas-history";
+import { useEditorShortcuts } from "@/hooks/use-editor-shortcuts";
+import { useCanvasGuides } from "@/hooks/use-canvas-guides";
+import { useCanvasViewport } from "@/hooks/use-canvas-viewport";
+import { useDraftAutosave } from "@/hooks/use-meme-drafts";
+import { saveUserMeme, USER_MEMES_QUERY_KEY, UserMeme, userMemeQueryKey } from "@/hooks/use-user-memes";
+import { useAuth } from "@/hooks/use-auth";
+import { useQueryClient } from "@tanstack/react-query";
+import { createPropertyCommand, createReorderCommand, HistoryCommand } from "@/lib/history";
+import { setObjectsProperties } from "@/lib/geometry";
+import { watchUppercaseText } from "@/lib/textStyle";
+import { refitAllText, watchAutoFitText } from "@/lib/textFit";
+import { formatLayoutErrors, LayoutDefinition, LayoutElement, parseLayoutDefinition } from "@/lib/layout";
+import { loadLayoutDefinition } from "@/lib/layoutMigrations";
+import { createObjectFromElement, EditorObject, EditorObjectMeta, getNestedObjects } from "@/lib/fabricLayout";
+import { applyElementPermissions, canDeleteElement, canRestyleElement, isElementLocked, isHiddenFromLayers } from "@/lib/elementPermissions";
+import { attachPhotoToSlot, getSlotPhotoFit, isSlotPlaceholder, setSlotHighlight, SlotPlaceholder, zoomSlotPhoto } from "@/lib/slots";
+import { loadDraft, MemeDraft } from "@/lib/drafts";
+import { linkLocalAssets, linkSlotPhotos, resolveLocalAssets, serializeMemeCanvas } from "@/lib/memeState";
+import { renderCanvasThumbnail } from "@/lib/templateThumbnail";
+import { getDefaultOutputSize, renderAtOutputSize, scaleNewObject } from "@/lib/viewport";
+import { copyObjects, duplicateObjects, PastedObject, pasteObjects } from "@/lib/clipboard";
+import { selectObjects } from "@/lib/selection";
+import { canGroupObject, groupObjects, ungroupObject } from "@/lib/grouping";
 
 const FONT_OPTIONS = [
   "Arial", "Arial Black", "Comic Sans MS", "Courier New", "Georgia", "Impact", "Tahoma", "Times New Roman", "Trebuchet MS", "Verdana"
 ];
 
+// Element types the colour picker fills
+const COLOR_TYPES = ["textbox", "rect", "circle"];
+
 function getElementTypeIcon(type: string) {
   if (type === "textbox") return <AlignLeft className="w-4 h-4" />;
   if (type === "rect") return <Square className="w-4 h-4" />;
   if (type === "circle") return <Circle className="w-4 h-4" />;
   if (type === "image") return <ImageIcon className="w-4 h-4" />;
   if (type === "video") return <Video className="w-4 h-4" />;
+  if (type === "slot") return <ImagePlus className="w-4 h-4" />;
+  if (type === "group") return <GroupIcon className="w-4 h-4" />;
   return <Layers className="w-4 h-4" />;
 }
 
@@ -27,13 +76,16 @@ function getElementLabel(obj: any) {
   if (obj.type === "textbox") return "Text";
   if (obj.type === "rect") return "Box";
   if (obj.type === "circle") return "Circle";
-  if (obj.type === "image") return obj?.originalFileName || "Image";
+  if (obj.type === "image") return obj?.slot ? `${obj.slot.slotName} photo` : obj?.originalFileName || "Image";
   if (obj.type === "video") return obj?.originalFileName || "Video";
+  if (obj.type === "slot") return `Slot: ${obj.slotName}`;
+  if (obj.type === "group") return `Group (${obj.size()})`;
   return obj.type;
 }
 
-function SortableElementItem({ id, obj, isActive, onSelect }: any) {
-  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+function SortableElementItem({ id, obj, isActive, locked, onSelect }: any) {
+  // Locked template elements keep their place in the stack
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled: locked });
   const style = {
     transform: CSS.Transform.toString(transform),
     transition,
@@ -46,13 +98,14 @@ function SortableElementItem({ id, obj, isActive, onSelect }: any) {
     display: "flex",
     alignItems: "center",
     gap: 8,
-    cursor: "grab",
+    cursor: locked ? "default" : "grab",
     boxShadow: isDragging ? "0 2px 8px rgba(0,0,0,0.08)" : undefined,
   };
   return (
     <div ref={setNodeRef} style={style} {...attributes} {...listeners} onClick={() => onSelect(obj)}>
       {getElementTypeIcon(obj.type)}
       <span className="text-xs font-medium text-muted-foreground">{getElementLabel(obj)}</span>
+      {locked && <Lock className="w-3 h-3 ml-auto text-muted-foreground" />}
     </div>
   );
 }
@@ -60,10 +113,23 @@ function SortableElementItem({ id, obj, isActive, onSelect }: any) {
 interface MemeEditorProps {
   template: Template;
   onBack: () => void;
+  /** Maximum number of undo steps */
+  historyDepth?: number;
+  /** Open the saved draft for this template without asking */
+  resumeDraft?: boolean;
+  /** Meme from My Memes to open instead of the bare template */
+  savedMeme?: UserMeme | null;
 }
 
-export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
+export const MemeEditor = ({ template, onBack, historyDepth, resumeDraft = false, savedMeme: initialMeme = null }: MemeEditorProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const slotInputRef = useRef<HTMLInputElement>(null);
+  // Slot the hidden file input will fill, and the slot a dragged file is over
+  const targetSlotRef = useRef<SlotPlaceholder | null>(null);
+  const dragOverSlotRef = useRef<SlotPlaceholder | null>(null);
   const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedObject, setSelectedObject] = useState<any>(null);
@@ -72,205 +138,158 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
   const [elements, setElements] = useState<any[]>([]);
    const [pendingImageUploads, setPendingImageUploads] = useState<{[key: string]: File}>({});
    const [pendingVideoUploads, setPendingVideoUploads] = useState<{[key: string]: File}>({});
-   const [originalTemplateData, setOriginalTemplateData] = useState<any>(null);
+   const [originalTemplateData, setOriginalTemplateData] = useState<LayoutDefinition | null>(null);
    const [canvasDimensions, setCanvasDimensions] = useState({ width: 400, height: 400 });
    const [videoElements, setVideoElements] = useState<any[]>([]);
    const [isPlaying, setIsPlaying] = useState(false);
    const [currentTime, setCurrentTime] = useState(0);
    const [maxDuration, setMaxDuration] = useState(0);
+   // Draft found when the template was opened, waiting for the user to resume or discard it
+   const [pendingDraft, setPendingDraft] = useState<MemeDraft | null>(null);
+   // Row in My Memes this editor saves to, once opened from or saved there
+   const [savedMeme, setSavedMeme] = useState<UserMeme | null>(initialMeme);
+   const [saving, setSaving] = useState(false);
+   const [showShortcuts, setShowShortcuts] = useState(false);
+   const [showAccount, setShowAccount] = useState(false);
+   // Layout the canvas was last loaded from; snapshots keep its canvas settings
+   const loadedLayoutRef = useRef<LayoutDefinition | null>(null);
+   const { isExporting, progress: exportProgress, startExport, cancelExport } = useVideoExport();
+   const history = useCanvasHistory(fabricCanvas, {
+     depth: historyDepth,
+     onChange: () => {
+       if (!fabricCanvas) return;
+       refitAllText(fabricCanvas);
+       setElements([...fabricCanvas.getObjects()]);
+       const active = fabricCanvas.getActiveObject();
+       setSelectedObject(active || null);
+       if (active && typeof active.fill === 'string') setColor(active.fill);
+       if (active instanceof Textbox) setFont(active.fontFamily);
+     },
+   });
+   const guides = useCanvasGuides(fabricCanvas);
+   const viewport = useCanvasViewport(fabricCanvas, canvasContainerRef, canvasDimensions);
 
   // DnD-kit setup
   const sensors = useSensors(useSensor(PointerSensor));
 
+  // Upgrade legacy formats and validate the stored layout once per template
+  const parsedLayout = useMemo(
+    () => loadLayoutDefinition(template.layout_definition, { type: template.type }),
+    [template]
+  );
+
+  // A saved meme opens with its own layout, which may have drifted from the template's
+  const parsedMemeLayout = useMemo(
+    () => initialMeme && loadLayoutDefinition(initialMeme.layout_definition, { type: initialMeme.type }),
+    [initialMeme]
+  );
+
+  const autosave = useDraftAutosave(template, {
+    meme: savedMeme,
+    getSnapshot: () => {
+      if (!fabricCanvas || !loadedLayoutRef.current) return null;
+      return {
+        layout: serializeMemeCanvas(fabricCanvas, loadedLayoutRef.current),
+        files: { ...pendingImageUploads, ...pendingVideoUploads },
+      };
+    },
+    paused: !!pendingDraft,
+  });
+
   // Get canvas dimensions from template data or use defaults
   const getCanvasDimensions = () => {
-    if (template.layout_definition?.canvas) {
+    const layout = parsedMemeLayout?.success ? parsedMemeLayout.data : parsedLayout.success ? parsedLayout.data : null;
+    if (layout) {
       return {
-        width: template.layout_definition.canvas.width || 400,
-        height: template.layout_definition.canvas.height || 400
+        width: layout.canvas.width,
+        height: layout.canvas.height
       };
     }
     
-    // Fallback to default dimensions
-    if (template.type === 'video') {
-      return { width: 400, height: 711 }; // 9:16 ratio scaled down
-    }
-    return { width: 400, height: 400 }; // 1:1 ratio
+    return getDefaultOutputSize(template.type);
   };
 
-  // Create fabric object from element data with EXACT positioning and sizing
-  const createElementFromData = async (elementData: any) => {
-    if (!fabricCanvas) return;
+  // Create fabric object from element data with its EXACT transform
+  const createElementFromData = async (elementData: LayoutElement, draftFiles: Record<string, File> = {}) => {
+    if (!fabricCanvas) return null;
 
     try {
-      switch (elementData.type) {
-        case 'textbox':
-          const textbox = new Textbox(elementData.text || 'Sample Text', {
-            left: elementData.x || 0,
-            top: elementData.y || 0,
-            fontSize: elementData.fontSize || 16,
-            fill: elementData.color || '#000000',
-            fontFamily: elementData.fontFamily || 'Arial',
-            width: elementData.width || 200,
-            // Preserve exact text box properties
-            splitByGrapheme: false,
-            editable: true
-          });
-          fabricCanvas.add(textbox);
-          break;
-
-        case 'rect':
-          const rect = new Rect({
-            left: elementData.x || 0,
-            top: elementData.y || 0,
-            fill: elementData.fill || '#ffffff',
-            width: elementData.width || 100,
-            height: elementData.height || 60,
-            stroke: elementData.strokeColor || '#000000',
-            strokeWidth: elementData.strokeWidth || 1,
-          });
-          fabricCanvas.add(rect);
-          break;
-
-        case 'circle':
-          const circle = new FabricCircle({
-            left: elementData.x || 0,
-            top: elementData.y || 0,
-            fill: elementData.fill || '#ffffff',
-            radius: elementData.radius || 50,
-            stroke: elementData.strokeColor || '#000000',
-            strokeWidth: elementData.strokeWidth || 1,
-          });
-          fabricCanvas.add(circle);
-          break;
-
-        case 'image':
-          if (elementData.imageUrl) {
-            try {
-              // FIX: Add crossOrigin option to prevent canvas tainting
-              const img = await FabricImage.fromURL(elementData.imageUrl, { crossOrigin: 'anonymous' });
-              
-              // Set exact position
-              img.set({
-                left: elementData.x || 0,
-                top: elementData.y || 0,
-                crossOrigin: 'anonymous'
-              });
-              
-              // Scale to EXACT original dimensions
-              if (elementData.width && elementData.height) {
-                const scaleX = elementData.width / (img.width || 1);
-                const scaleY = elementData.height / (img.height || 1);
-                img.set({
-                  scaleX: scaleX,
-                  scaleY: scaleY
-                });
-              }
-              
-              fabricCanvas.add(img);
-            } catch (error) {
-              console.error('Error loading image element:', error);
-              toast.error(`Failed to load image: ${elementData.imageUrl}`);
-            }
-          }
-          break;
-
-        case 'video':
-          // Create video element as canvas object (similar to image)
-          if (elementData.videoUrl) {
-            try {
-              // Create a video element for playback
-              const video = document.createElement('video');
-              video.src = elementData.videoUrl;
-              video.crossOrigin = 'anonymous';
-              video.muted = true;
-              video.loop = false;
-              
-              video.onloadeddata = () => {
-                const videoCanvas = document.createElement('canvas');
-                videoCanvas.width = video.videoWidth || 400;
-                videoCanvas.height = video.videoHeight || 300;
-                const ctx = videoCanvas.getContext('2d');
-                
-                // Draw first frame
-                video.currentTime = 0;
-                video.oncanplaythrough = () => {
-                  ctx?.drawImage(video, 0, 0);
-                  
-                  // Create fabric image from video frame
-                  FabricImage.fromURL(videoCanvas.toDataURL(), { crossOrigin: 'anonymous' }).then((img: any) => {
-                    img.set({
-                      left: elementData.x || 0,
-                      top: elementData.y || 0,
-                      crossOrigin: 'anonymous'
-                    });
-                    
-                    // Scale to EXACT dimensions
-                    if (elementData.width && elementData.height) {
-                      const scaleX = elementData.width / (img.width || 1);
-                      const scaleY = elementData.height / (img.height || 1);
-                      img.set({
-                        scaleX: scaleX,
-                        scaleY: scaleY
-                      });
-                    }
-                    
-                    // Mark as video element and attach video for playback
-                    img.isVideo = true;
-                    img.videoDuration = elementData.duration;
-                    img.videoUrl = elementData.videoUrl;
-                    img.originalFileName = elementData.originalFileName;
-                    img.videoElement = video; // Store actual video element for playback
-                    
-                    fabricCanvas.add(img);
-                    setMaxDuration(prev => Math.max(prev, elementData.duration || 0));
-                  });
-                };
-              };
-            } catch (error) {
-              console.error('Error loading video element:', error);
-              toast.error(`Failed to load video: ${elementData.videoUrl}`);
-            }
-          }
-          break;
-
-        default:
-          console.warn('Unknown element type:', elementData.type);
+      // Files from a draft load from object URLs and become pending uploads again
+      const { element, assetIds } = resolveLocalAssets(elementData, draftFiles);
+      const obj = await createObjectFromElement(element);
+      addPendingFiles(obj, linkLocalAssets(obj, assetIds, draftFiles));
+      // Slots are drop targets for the user's photo, not movable elements
+      if (isSlotPlaceholder(obj)) {
+        obj.set({ selectable: false, hoverCursor: 'pointer' });
       }
+      applyElementPermissions(obj);
+      fabricCanvas.add(obj);
+      if (obj.isVideo) {
+        setMaxDuration(prev => Math.max(prev, obj.videoDuration || 0));
+      }
+      return obj;
     } catch (error) {
-      console.error('Error creating element:', error);
+      console.error(`Error loading ${elementData.type} element:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to load ${elementData.type} element`);
+      return null;
     }
   };
 
-  // Load template data and recreate canvas with EXACT positioning
-  const loadTemplateData = async () => {
-    if (!fabricCanvas || !template.layout_definition) return;
+  // Load the saved meme, a draft, or the template itself (`original`) and recreate canvas with EXACT positioning
+  const loadTemplateData = async ({ draft, original = false }: { draft?: MemeDraft; original?: boolean } = {}) => {
+    if (!fabricCanvas) return;
+
+    if (parsedLayout.success === false) {
+      console.error('Invalid layout definition:', parsedLayout.errors);
+      toast.error(`Template "${template.name}" could not be loaded`, {
+        description: formatLayoutErrors(parsedLayout.errors),
+      });
+      return;
+    }
+
+    const parsedDraft = draft ? loadLayoutDefinition(draft.layout, { type: template.type }) : null;
+    if (parsedDraft?.success === false) {
+      console.error('Invalid draft layout:', parsedDraft.errors);
+      toast.error('Your draft could not be loaded', {
+        description: formatLayoutErrors(parsedDraft.errors),
+      });
+      return;
+    }
+
+    if (!original && !draft && parsedMemeLayout?.success === false) {
+      console.error('Invalid meme layout:', parsedMemeLayout.errors);
+      toast.error(`"${initialMeme?.name}" could not be loaded`, {
+        description: formatLayoutErrors(parsedMemeLayout.errors),
+      });
+      return;
+    }
 
     try {
       setLoading(true);
+      autosave.suspend();
       
-      const layoutDef = template.layout_definition;
+      const layoutDef = parsedDraft?.data
+        ?? (!original && parsedMemeLayout?.success ? parsedMemeLayout.data : parsedLayout.data);
+      loadedLayoutRef.current = layoutDef;
       
       // Store original template data for reset functionality
-      setOriginalTemplateData(layoutDef);
+      setOriginalTemplateData(parsedLayout.data);
       
       // Clear canvas completely
       fabricCanvas.clear();
       fabricCanvas.backgroundColor = '#ffffff';
       
-      // Set exact canvas dimensions first
-      const dimensions = getCanvasDimensions();
-      fabricCanvas.setWidth(dimensions.width);
-      fabricCanvas.setHeight(dimensions.height);
+      // The viewport follows the layout's output size
+      const dimensions = { width: layoutDef.canvas.width, height: layoutDef.canvas.height };
       setCanvasDimensions(dimensions);
       
       // Set canvas background color
-      if (layoutDef.canvas?.backgroundColor) {
+      if (layoutDef.canvas.backgroundColor) {
         fabricCanvas.backgroundColor = layoutDef.canvas.backgroundColor;
       }
       
       // Set background image if exists
-      if (layoutDef.canvas?.backgroundImage) {
+      if (layoutDef.canvas.backgroundImage) {
         try {
           // FIX: Add crossOrigin option to prevent canvas tainting
           const img = await FabricImage.fromURL(layoutDef.canvas.backgroundImage, { crossOrigin: 'anonymous' });
@@ -293,25 +312,38 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       // Reset video elements
       setVideoElements([]);
       setMaxDuration(0);
+      setPendingImageUploads({});
+      setPendingVideoUploads({});
       
       // Recreate all elements with EXACT positioning and sizing
-      if (layoutDef.elements && Array.isArray(layoutDef.elements)) {
-        for (const elementData of layoutDef.elements) {
-          await createElementFromData(elementData);
-        }
+      const objectsById = new Map<string, EditorObject>();
+      for (const elementData of layoutDef.elements) {
+        const obj = await createElementFromData(elementData, draft?.assets);
+        if (obj) objectsById.set(elementData.id, obj);
       }
+      linkSlotPhotos(layoutDef.elements, objectsById);
       
       // Set max duration from layout definition
       if (layoutDef.maxDuration) {
         setMaxDuration(layoutDef.maxDuration);
       }
       
+      // Fonts may measure differently here than when the template was saved
+      refitAllText(fabricCanvas);
+
       // Force canvas to render with exact dimensions
       fabricCanvas.renderAll();
       fabricCanvas.calcOffset();
       
       setElements([...fabricCanvas.getObjects()]);
-      toast.success(`Template "${template.name}" loaded!`);
+      autosave.markClean();
+      if (draft) {
+        toast.success(`Draft of "${draft.templateName}" restored!`);
+      } else if (savedMeme && !original) {
+        toast.success(`"${savedMeme.name}" loaded!`);
+      } else {
+        toast.success(`Template "${template.name}" loaded!`);
+      }
       
     } catch (error) {
       console.error('Error loading template data:', error);
@@ -339,11 +371,12 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     setFabricCanvas(canvas);
 
     // Selection event listeners
-    canvas.on("selection:created", (e) => {
-      setSelectedObject(e.selected?.[0] || null);
+    // Several selected objects come through as one ActiveSelection
+    canvas.on("selection:created", () => {
+      setSelectedObject(canvas.getActiveObject() || null);
     });
-    canvas.on("selection:updated", (e) => {
-      setSelectedObject(e.selected?.[0] || null);
+    canvas.on("selection:updated", () => {
+      setSelectedObject(canvas.getActiveObject() || null);
     });
     canvas.on("selection:cleared", () => {
       setSelectedObject(null);
@@ -371,28 +404,326 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     return cleanup;
   }, [template]);
 
-  // Load template data when canvas is ready
+  // Load template data when canvas is ready, offering to resume a saved draft. Read through
+  // a ref because saving changes the draft key, which must not reload the canvas
+  const draftLoadRef = useRef({ draftKey: autosave.draftKey, resumeDraft });
+  draftLoadRef.current = { draftKey: autosave.draftKey, resumeDraft };
   useEffect(() => {
-    if (fabricCanvas) {
-      loadTemplateData();
-    }
+    if (!fabricCanvas) return;
+    let cancelled = false;
+    const { draftKey, resumeDraft: shouldResume } = draftLoadRef.current;
+    loadDraft(draftKey)
+      .catch((error) => {
+        console.error('Error loading draft:', error);
+        return undefined;
+      })
+      .then((draft) => {
+        if (cancelled) return;
+        if (draft && shouldResume) {
+          loadTemplateData({ draft });
+          return;
+        }
+        if (draft) setPendingDraft(draft);
+        loadTemplateData();
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [fabricCanvas]);
 
+  const handleResumeDraft = () => {
+    if (!pendingDraft) return;
+    history.clear();
+    loadTemplateData({ draft: pendingDraft });
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    setPendingDraft(null);
+    autosave.discard();
+  };
+
+  // Save the draft before leaving so the last edits are not lost
+  const handleBack = async () => {
+    await autosave.flush();
+    onBack();
+  };
+
   // Keep elements in sync if canvas changes
   useEffect(() => {
     if (fabricCanvas) setElements([...fabricCanvas.getObjects()]);
   }, [fabricCanvas]);
 
+  // Objects in the current selection, and the ones a colour or font change applies to
+  const selectedObjects: EditorObject[] = selectedObject && fabricCanvas ? fabricCanvas.getActiveObjects() : [];
+  const isMultiSelection = selectedObject instanceof ActiveSelection;
+  const colorTargets = selectedObjects
+    .flatMap(getNestedObjects)
+    .filter((obj) => COLOR_TYPES.includes(obj.type) && canRestyleElement(obj));
+  const fontTargets = colorTargets.filter((obj): obj is Textbox & EditorObjectMeta => obj instanceof Textbox);
+  // Template-placed elements and slot photos keep their positions
+  const canArrange = selectedObjects.length > 0 && selectedObjects.every((obj) => !isElementLocked(obj) && !obj.slot);
+
   // Update color/font state when object is selected
+  const [firstColorTarget] = colorTargets;
+  const [firstFontTarget] = fontTargets;
   useEffect(() => {
-    if (!selectedObject) return;
-    if (selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle") {
-      setColor(selectedObject.fill || "#000000");
+    if (firstColorTarget) {
+      setColor((firstColorTarget.fill as string) || "#000000");
+    }
+    if (firstFontTarget) {
+      setFont(firstFontTarget.fontFamily || FONT_OPTIONS[0]);
+    }
+  }, [firstColorTarget, firstFontTarget]);
+
+  // Recalculate the preview length from the videos currently on the canvas
+  const syncMaxDuration = () => {
+    if (!fabricCanvas) return;
+    const durations = (fabricCanvas.getObjects() as EditorObject[])
+      .filter((obj) => obj.isVideo)
+      .map((obj) => obj.videoDuration || 0);
+    setMaxDuration(durations.length > 0 ? Math.max(...durations) : 0);
+  };
+
+  // Remove an object together with its pending uploads, grouped objects' included
+  const removeObject = (obj: EditorObject) => {
+    if (!fabricCanvas) return;
+    const nested = getNestedObjects(obj);
+    const imageIds = nested.map((child) => child.imageId).filter(Boolean);
+    const videoIds = nested.map((child) => child.videoId).filter(Boolean);
+    if (imageIds.length > 0) {
+      setPendingImageUploads(prev => {
+        const updated = { ...prev };
+        imageIds.forEach((id) => delete updated[id]);
+        return updated;
+      });
+    }
+    if (videoIds.length > 0) {
+      setPendingVideoUploads(prev => {
+        const updated = { ...prev };
+        videoIds.forEach((id) => delete updated[id]);
+        return updated;
+      });
+    }
+    if (fabricCanvas.getActiveObject() === obj) {
+      fabricCanvas.discardActiveObject();
+      setSelectedObject(null);
     }
-    if (selectedObject.type === "textbox") {
-      setFont(selectedObject.fontFamily || FONT_OPTIONS[0]);
+    fabricCanvas.remove(obj);
+    // An emptied slot shows its placeholder again
+    obj.slot?.set({ visible: true });
+    fabricCanvas.requestRenderAll();
+    syncMaxDuration();
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Pending uploads keyed by imageId / videoId, e.g. from getPendingFiles
+  const addPendingFiles = (obj: EditorObject, files: Record<string, File>) => {
+    getNestedObjects(obj).forEach((nested) => {
+      if (nested.videoId && files[nested.videoId]) {
+        setPendingVideoUploads(prev => ({ ...prev, [nested.videoId]: files[nested.videoId] }));
+      } else if (nested.imageId && files[nested.imageId]) {
+        setPendingImageUploads(prev => ({ ...prev, [nested.imageId]: files[nested.imageId] }));
+      }
+    });
+  };
+
+  // Put a removed object back at its layer index, restoring its pending uploads
+  const restoreObject = (obj: EditorObject, index: number, files: Record<string, File> = {}) => {
+    if (!fabricCanvas) return;
+    fabricCanvas.insertAt(index, obj);
+    obj.slot?.set({ visible: false });
+    addPendingFiles(obj, files);
+    fabricCanvas.requestRenderAll();
+    syncMaxDuration();
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Record an add (present = true, call after adding) or delete (call before removing)
+  const pushPresenceCommand = (obj: EditorObject, label: string, present: boolean, files?: Record<string, File>) => {
+    if (!fabricCanvas) return;
+    const index = fabricCanvas.getObjects().indexOf(obj);
+    const add = () => restoreObject(obj, index, files);
+    const remove = () => removeObject(obj);
+    history.push({ label, undo: present ? remove : add, redo: present ? add : remove });
+  };
+
+  // Pending uploads behind the images and videos the user added, keyed by their ids
+  const getPendingFiles = (obj: EditorObject) => {
+    const files: Record<string, File> = {};
+    getNestedObjects(obj).forEach((nested) => {
+      if (nested.imageId && pendingImageUploads[nested.imageId]) files[nested.imageId] = pendingImageUploads[nested.imageId];
+      if (nested.videoId && pendingVideoUploads[nested.videoId]) files[nested.videoId] = pendingVideoUploads[nested.videoId];
+    });
+    return files;
+  };
+
+  // Record several objects added or removed together as one step, e.g. a paste or multi-delete
+  const pushGroupPresenceCommand = (entries: { obj: EditorObject; files?: Record<string, File> }[], label: string, present: boolean) => {
+    if (!fabricCanvas) return;
+    const stack = fabricCanvas.getObjects();
+    // Restored bottom to top so each index is valid when it is reinserted
+    const indexed = entries
+      .map((entry) => ({ ...entry, index: stack.indexOf(entry.obj) }))
+      .sort((a, b) => a.index - b.index);
+    const add = () => indexed.forEach(({ obj, index, files }) => restoreObject(obj, index, files));
+    const remove = () => indexed.forEach(({ obj }) => removeObject(obj));
+    history.push({ label, undo: present ? remove : add, redo: present ? add : remove });
+  };
+
+  // The photo currently filling a slot, if any
+  const getSlotPhoto = (slot: SlotPlaceholder) =>
+    (fabricCanvas?.getObjects() as EditorObject[] | undefined)?.find((obj) => obj.slot === slot);
+
+  // Clip a photo to a slot, replacing any photo already in it
+  const fillSlot = (slot: SlotPlaceholder, file: File) => {
+    if (!fabricCanvas) return;
+    if (!file.type.startsWith('image/')) {
+      toast.error(`${file.name} is not an image`);
+      return;
     }
-  }, [selectedObject]);
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const imageUrl = event.target?.result as string;
+      FabricImage.fromURL(imageUrl, { crossOrigin: 'anonymous' }).then((img: FabricImage & EditorObjectMeta) => {
+        attachPhotoToSlot(img, slot);
+        img.imageId = `image_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+        img.originalFileName = file.name;
+        img.slot = slot;
+
+        const previous = getSlotPhoto(slot);
+        const previousIndex = previous ? fabricCanvas.getObjects().indexOf(previous) : -1;
+        const previousFiles = previous ? getPendingFiles(previous) : {};
+        const files = { [img.imageId]: file };
+        if (previous) removeObject(previous);
+
+        // Directly above the placeholder so the slot keeps its place in the stack
+        const index = fabricCanvas.getObjects().indexOf(slot) + 1;
+        restoreObject(img, index, files);
+        fabricCanvas.setActiveObject(img);
+        setSelectedObject(img);
+
+        if (previous) {
+          history.push({
+            label: 'Replace photo',
+            undo: () => {
+              removeObject(img);
+              restoreObject(previous, previousIndex, previousFiles);
+            },
+            redo: () => {
+              removeObject(previous);
+              restoreObject(img, index, files);
+            },
+          });
+        } else {
+          pushPresenceCommand(img, 'Add photo', true, files);
+        }
+      }).catch((error) => {
+        console.error('Error loading slot photo:', error);
+        toast.error(`Failed to load photo: ${file.name}`);
+      });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const openSlotFilePicker = (slot: SlotPlaceholder) => {
+    targetSlotRef.current = slot;
+    slotInputRef.current?.click();
+  };
+
+  const handleSlotFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && targetSlotRef.current) fillSlot(targetSlotRef.current, file);
+    targetSlotRef.current = null;
+    e.target.value = "";
+  };
+
+  // Re-centre a panned or zoomed photo using the slot's fit mode
+  const resetSlotPhoto = () => {
+    if (!fabricCanvas || !selectedObject?.slot) return;
+    const img = selectedObject as FabricImage & EditorObjectMeta;
+    const after = getSlotPhotoFit(img, img.slot);
+    const before = { left: img.left, top: img.top, scaleX: img.scaleX, scaleY: img.scaleY };
+    img.set(after);
+    img.setCoords();
+    fabricCanvas.requestRenderAll();
+    history.push(createPropertyCommand(fabricCanvas, img, before, after, 'Reset photo'));
+  };
+
+  // Topmost slot under a drag event, including filled slots whose placeholder is hidden
+  const findSlotAt = (e: React.DragEvent) => {
+    if (!fabricCanvas) return null;
+    const point = fabricCanvas.getScenePoint(e.nativeEvent);
+    const slots = fabricCanvas.getObjects().filter(isSlotPlaceholder);
+    return slots.reverse().find((slot) => slot.containsPoint(point)) ?? null;
+  };
+
+  const highlightSlot = (slot: SlotPlaceholder | null) => {
+    if (!fabricCanvas || dragOverSlotRef.current === slot) return;
+    if (dragOverSlotRef.current) setSlotHighlight(dragOverSlotRef.current, false);
+    if (slot) setSlotHighlight(slot, true);
+    dragOverSlotRef.current = slot;
+    fabricCanvas.requestRenderAll();
+  };
+
+  const handleSlotDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    const slot = findSlotAt(e);
+    highlightSlot(slot);
+    if (slot) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    }
+  };
+
+  const handleSlotDrop = (e: React.DragEvent) => {
+    const slot = findSlotAt(e);
+    highlightSlot(null);
+    if (!slot) return;
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) fillSlot(slot, file);
+  };
+
+  // Click an empty slot to pick a photo; scroll over a slot photo to zoom it
+  const { push: pushHistory } = history;
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    const onMouseDown = ({ target }: TPointerEventInfo) => {
+      if (isSlotPlaceholder(target)) openSlotFilePicker(target);
+    };
+    const onWheel = ({ e, target }: TPointerEventInfo<WheelEvent>) => {
+      const img = target as FabricImage & EditorObjectMeta;
+      if (!img?.slot) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const before = { left: img.left, top: img.top, scaleX: img.scaleX, scaleY: img.scaleY };
+      zoomSlotPhoto(img, 0.999 ** e.deltaY, fabricCanvas.getScenePoint(e));
+      const after = { left: img.left, top: img.top, scaleX: img.scaleX, scaleY: img.scaleY };
+      fabricCanvas.requestRenderAll();
+      pushHistory(createPropertyCommand(fabricCanvas, img, before, after, 'Zoom photo'));
+    };
+
+    fabricCanvas.on('mouse:down', onMouseDown);
+    fabricCanvas.on('mouse:wheel', onWheel);
+    return () => {
+      fabricCanvas.off('mouse:down', onMouseDown);
+      fabricCanvas.off('mouse:wheel', onWheel);
+    };
+  }, [fabricCanvas, pushHistory]);
+
+  // Empty slots are editing aids, so they are left out of downloads; returns a restore function
+  const hideEmptySlots = () => {
+    const emptySlots = fabricCanvas?.getObjects().filter((obj) => isSlotPlaceholder(obj) && obj.visible) ?? [];
+    emptySlots.forEach((slot) => slot.set({ visible: false }));
+    fabricCanvas?.renderAll();
+    return () => {
+      emptySlots.forEach((slot) => slot.set({ visible: true }));
+      fabricCanvas?.requestRenderAll();
+    };
+  };
 
   // Check if canvas has video elements
   const hasVideoElements = () => {
@@ -448,28 +779,9 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
               if (ctx) {
                 ctx.drawImage(obj.videoElement, 0, 0);
                 
-                // Update the fabric image with new frame
-                FabricImage.fromURL(videoCanvas.toDataURL()).then((newImg: any) => {
-                  const oldProps = {
-                    left: obj.left,
-                    top: obj.top,
-                    scaleX: obj.scaleX,
-                    scaleY: obj.scaleY,
-                    angle: obj.angle
-                  };
-                  
-                  fabricCanvas.remove(obj);
-                  newImg.set(oldProps);
-                  newImg.videoId = obj.videoId;
-                  newImg.originalFileName = obj.originalFileName;
-                  newImg.isVideo = true;
-                  newImg.videoDuration = obj.videoDuration;
-                  newImg.videoUrl = obj.videoUrl;
-                  newImg.videoElement = obj.videoElement;
-                  
-                  fabricCanvas.add(newImg);
-                  fabricCanvas.renderAll();
-                });
+                // Swap the frame in place so the object keeps its layer and undo history
+                obj.setElement(videoCanvas);
+                fabricCanvas.renderAll();
               }
             }
           });
@@ -531,6 +843,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
                 scaleX: 0.3, 
                 scaleY: 0.3 
               });
+              scaleNewObject(img, canvasDimensions);
               
               // Store video metadata and element for playback
               const videoId = `video_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
@@ -550,6 +863,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
               fabricCanvas.add(img);
               fabricCanvas.setActiveObject(img);
               setElements([...fabricCanvas.getObjects()]);
+              pushPresenceCommand(img, 'Add video', true, { [videoId]: file });
               
               // Update max duration for playback
               setMaxDuration(prev => Math.max(prev, video.duration));
@@ -583,6 +897,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
             scaleY: 0.5,
             crossOrigin: 'anonymous'
           });
+          scaleNewObject(img, canvasDimensions);
           
           // Store original file and filename
           const imageId = `image_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
@@ -598,6 +913,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
           fabricCanvas.add(img);
           fabricCanvas.setActiveObject(img);
           setElements([...fabricCanvas.getObjects()]);
+          pushPresenceCommand(img, 'Add image', true, { [imageId]: file });
         }).catch((error) => {
           console.error('Error loading uploaded image:', error);
           toast.error(`Failed to load uploaded image: ${file.name}`);
@@ -608,60 +924,131 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     e.target.value = "";
   };
 
-  // Delete selected object
+  // Delete the given objects as one undo step
+  const deleteObjects = (objects: EditorObject[]) => {
+    if (!fabricCanvas || objects.length === 0) return;
+    if (!objects.every(canDeleteElement)) {
+      toast.error("This element is locked by the template");
+      return;
+    }
+    fabricCanvas.discardActiveObject();
+    pushGroupPresenceCommand(objects.map((obj) => ({ obj, files: getPendingFiles(obj) })), 'Delete', false);
+    objects.forEach(removeObject);
+    setSelectedObject(null);
+  };
+
+  // Delete selected objects
   const handleDelete = () => {
-    if (fabricCanvas && selectedObject) {
-       // Remove from pending uploads if it's an image
-       if (selectedObject.imageId) {
-         setPendingImageUploads(prev => {
-           const updated = { ...prev };
-           delete updated[selectedObject.imageId];
-           return updated;
-         });
-       }
-       
-       // Remove from pending uploads if it's a video
-       if (selectedObject.videoId) {
-         setPendingVideoUploads(prev => {
-           const updated = { ...prev };
-           delete updated[selectedObject.videoId];
-           return updated;
-         });
-         
-         // Recalculate max duration
-         const remainingVideoObjects = fabricCanvas.getObjects().filter((obj: any) => obj.isVideo && obj !== selectedObject);
-         const newMaxDuration = remainingVideoObjects.length > 0 
-           ? Math.max(...remainingVideoObjects.map((obj: any) => obj.videoDuration))
-           : 0;
-         setMaxDuration(newMaxDuration);
-       }
-      
-      fabricCanvas.remove(selectedObject);
-      setSelectedObject(null);
-      fabricCanvas.discardActiveObject();
-      fabricCanvas.requestRenderAll();
-      setElements([...fabricCanvas.getObjects()]);
+    if (fabricCanvas) deleteObjects(fabricCanvas.getActiveObjects());
+  };
+
+  // Add pasted or duplicated copies on top of the stack and select them
+  const addCopies = (copies: PastedObject[], label: string) => {
+    if (!fabricCanvas) return;
+    // Photo slots belong to the template, so only its other elements can be pasted
+    const added = copies.filter(({ obj }) => !isSlotPlaceholder(obj));
+    if (added.length === 0) return;
+    added.forEach(({ obj, files }) => {
+      // Copies belong to the user, so template restrictions do not carry over
+      getNestedObjects(obj).forEach((nested) => { nested.permissions = undefined; });
+      restoreObject(obj, fabricCanvas.getObjects().length, files);
+    });
+    selectObjects(fabricCanvas, added.map(({ obj }) => obj));
+    pushGroupPresenceCommand(added, label, true);
+  };
+
+  const handleCopy = (objects: FabricObject[]) => {
+    copyObjects(objects, { ...pendingImageUploads, ...pendingVideoUploads });
+  };
+
+  const handlePaste = async () => {
+    try {
+      const copies = await pasteObjects();
+      if (copies) addCopies(copies, 'Paste');
+    } catch (error) {
+      toast.error("Failed to paste");
+      console.error('Error:', error);
+    }
+  };
+
+  const handleDuplicate = async (objects: FabricObject[]) => {
+    try {
+      addCopies(await duplicateObjects(objects, { ...pendingImageUploads, ...pendingVideoUploads }), 'Duplicate');
+    } catch (error) {
+      toast.error("Failed to duplicate");
+      console.error('Error:', error);
     }
   };
 
-  // Change color of selected object
+  useEditorShortcuts(fabricCanvas, {
+    onCommand: history.push,
+    onChange: () => {
+      if (fabricCanvas) setElements([...fabricCanvas.getObjects()]);
+    },
+    onDelete: deleteObjects,
+    onCopy: handleCopy,
+    onPaste: handlePaste,
+    onDuplicate: handleDuplicate,
+    onShowShortcuts: () => setShowShortcuts(true),
+    // Locked elements and slot photos stay put when everything else is moved together
+    canSelectAll: (obj) => obj.selectable && obj.visible && !isElementLocked(obj) && !(obj as EditorObject).slot,
+  });
+
+  // Set a property on every target as one undo step
+  const restyleObjects = (targets: FabricObject[], props: Record<string, unknown>, label: string) => {
+    if (!fabricCanvas || targets.length === 0) return;
+    history.push(setObjectsProperties(fabricCanvas, targets, () => props, label));
+  };
+
+  // Change color of the selected objects
   const handleColorChange = (newColor: string) => {
     setColor(newColor);
-    if (selectedObject && (selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle")) {
-      selectedObject.set({ fill: newColor });
-      if (fabricCanvas) fabricCanvas.requestRenderAll();
-    }
+    restyleObjects(colorTargets, { fill: newColor }, 'Change color');
   };
 
-  // Change font of selected text
+  // Change font of the selected text
   const handleFontChange = (value: string) => {
     setFont(value);
-    if (selectedObject && selectedObject.type === "textbox") {
-      selectedObject.set({ fontFamily: value });
-      if (fabricCanvas) fabricCanvas.requestRenderAll();
+    restyleObjects(fontTargets, { fontFamily: value }, 'Change font');
+  };
+
+  // Template restrictions carry over, so only elements the user may move can be grouped
+  const canGroup = isMultiSelection && selectedObjects.every((obj) => canGroupObject(obj) && !isElementLocked(obj));
+  const canUngroup = selectedObject instanceof Group && !isMultiSelection && !isElementLocked(selectedObject);
+
+  const handleGroup = () => {
+    if (!fabricCanvas || !canGroup) return;
+    history.push(groupObjects(fabricCanvas, selectedObjects));
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  const handleUngroup = () => {
+    if (!fabricCanvas || !canUngroup) return;
+    history.push(ungroupObject(fabricCanvas, selectedObject));
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Inspector changes can also set fill and font (the classic meme preset)
+  const handleTextStyleCommand = (command: HistoryCommand) => {
+    history.push(command);
+    if (selectedObject) {
+      setColor(selectedObject.fill);
+      setFont(selectedObject.fontFamily);
     }
   };
 
+  // Keep uppercase text boxes in capitals as the user types
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    return watchUppercaseText(fabricCanvas);
+  }, [fabricCanvas]);
+
+  // Auto-fit text grows or shrinks to fill its template box as the user types
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    return watchAutoFitText(fabricCanvas);
+  }, [fabricCanvas]);
+
   // DnD reorder handler
   const handleDragEnd = (event: any) => {
     const { active, over } = event;
@@ -673,10 +1060,12 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       
       // Reorder objects on canvas
       if (fabricCanvas) {
+        const before = [...fabricCanvas.getObjects()];
         newElements.forEach((obj) => {
           fabricCanvas.bringObjectToFront(obj);
         });
         fabricCanvas.renderAll();
+        history.push(createReorderCommand(fabricCanvas, before, [...fabricCanvas.getObjects()]));
       }
     }
   };
@@ -701,9 +1090,11 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       fontFamily: "Arial",
       width: 200,
     });
+    scaleNewObject(text, canvasDimensions);
     
     fabricCanvas.add(text);
     fabricCanvas.setActiveObject(text);
+    pushPresenceCommand(text, 'Add text', true);
     toast.success("Text added!");
   };
 
@@ -719,9 +1110,11 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       stroke: "#000000",
       strokeWidth: 2,
     });
+    scaleNewObject(rect, canvasDimensions);
     
     fabricCanvas.add(rect);
     fabricCanvas.setActiveObject(rect);
+    pushPresenceCommand(rect, 'Add rectangle', true);
     toast.success("Rectangle added!");
   };
 
@@ -736,9 +1129,11 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       stroke: "#000000",
       strokeWidth: 2,
     });
+    scaleNewObject(circle, canvasDimensions);
     
     fabricCanvas.add(circle);
     fabricCanvas.setActiveObject(circle);
+    pushPresenceCommand(circle, 'Add circle', true);
     toast.success("Circle added!");
   };
 
@@ -747,6 +1142,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     if (!fabricCanvas || !originalTemplateData) return;
 
     // Clear canvas
+    autosave.suspend();
     fabricCanvas.clear();
     
      // Clear pending uploads
@@ -755,11 +1151,86 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
      setVideoElements([]);
      setMaxDuration(0);
     
-    // Reload original template data
-    loadTemplateData();
+    // Reload original template data; the draft goes with the edits
+    history.clear();
+    autosave.discard();
+    loadTemplateData({ original: true });
     toast.success("Canvas reset to original template!");
   };
 
+  // Feeds the "most used" sort; failures only matter for ranking, so they are just logged
+  const recordTemplateUse = async () => {
+    const { error } = await supabase.rpc('increment_template_use', { template_id: template.id });
+    if (error) console.error('Error recording template use:', error);
+  };
+
+  // Save the editable meme, uploading any files added since the last save, to My Memes
+  const saveMeme = async () => {
+    if (!fabricCanvas || !loadedLayoutRef.current) return;
+    if (!user) {
+      setShowAccount(true);
+      return;
+    }
+
+    const validation = parseLayoutDefinition(serializeMemeCanvas(fabricCanvas, loadedLayoutRef.current));
+    if (validation.success === false) {
+      console.error('Invalid layout definition:', validation.errors);
+      toast.error("This meme could not be saved", {
+        description: formatLayoutErrors(validation.errors),
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const restoreSlots = hideEmptySlots();
+      let thumbnail: Blob;
+      try {
+        thumbnail = await renderCanvasThumbnail(fabricCanvas, canvasDimensions);
+      } finally {
+        restoreSlots();
+      }
+
+      const { meme, uploadedUrls } = await saveUserMeme({
+        userId: user.id,
+        existing: savedMeme,
+        templateId: savedMeme ? savedMeme.template_id : template.id,
+        name: savedMeme?.name ?? template.name,
+        type: template.type,
+        layout: validation.data,
+        files: { ...pendingImageUploads, ...pendingVideoUploads },
+        thumbnail,
+      });
+
+      // Uploaded files are no longer pending; their objects now point at the stored copies
+      fabricCanvas.getObjects().flatMap(getNestedObjects).forEach((obj) => {
+        if (obj.imageId && uploadedUrls[obj.imageId]) {
+          obj.imageUrl = uploadedUrls[obj.imageId];
+          obj.imageId = undefined;
+        }
+        if (obj.videoId && uploadedUrls[obj.videoId]) {
+          obj.videoUrl = uploadedUrls[obj.videoId];
+          obj.videoId = undefined;
+        }
+      });
+      setPendingImageUploads({});
+      setPendingVideoUploads({});
+
+      // The saved meme supersedes the draft; later edits are drafted under the meme
+      await autosave.discard();
+      autosave.markClean();
+      setSavedMeme(meme);
+      queryClient.setQueryData(userMemeQueryKey(meme.id), meme);
+      queryClient.invalidateQueries({ queryKey: USER_MEMES_QUERY_KEY });
+      toast.success(`"${meme.name}" saved to My Memes`);
+    } catch (error) {
+      toast.error("Failed to save meme");
+      console.error('Error:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Download meme - image if no video elements, video if video elements exist
   const downloadMeme = async () => {
     if (!fabricCanvas) {
@@ -770,8 +1241,24 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     const hasVideos = hasVideoElements();
     
     if (hasVideos) {
-      // For canvases with video elements, download as video
-      toast.info("Video download will be implemented with video rendering");
+      // For canvases with video elements, render every frame into a video file
+      if (isPlaying) {
+        toast.error("Pause the video preview before downloading");
+        return;
+      }
+      const dimensions = canvasDimensions;
+      const restoreSlots = hideEmptySlots();
+      try {
+        const downloaded = await startExport(fabricCanvas, {
+          width: dimensions.width,
+          height: dimensions.height,
+          duration: maxDuration,
+          fileName: `meme-${template.name.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}`,
+        });
+        if (downloaded) recordTemplateUse();
+      } finally {
+        restoreSlots();
+      }
       return;
     }
 
@@ -780,12 +1267,14 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       // Wait for all images to be fully loaded
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      // Create a high-quality data URL of the current canvas
-      const dataURL = fabricCanvas.toDataURL({
-        format: 'png',
-        quality: 1,
-        multiplier: 2 // Higher resolution for better quality
-      });
+      // Render at the template's exact output resolution, whatever the on-screen size
+      const restoreSlots = hideEmptySlots();
+      let dataURL: string;
+      try {
+        dataURL = renderAtOutputSize(fabricCanvas, canvasDimensions).toDataURL('image/png');
+      } finally {
+        restoreSlots();
+      }
 
       // Create download link
       const link = document.createElement('a');
@@ -798,6 +1287,7 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
       document.body.removeChild(link);
       
       toast.success("Meme downloaded successfully!");
+      recordTemplateUse();
       
     } catch (error: any) {
       console.error('Download error:', error);
@@ -810,22 +1300,44 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
     }
   };
 
+  // Reordering still works on the full stack; hidden elements just are not listed
+  const layerElements = elements.filter((obj) => !isHiddenFromLayers(obj));
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <Button variant="outline" onClick={onBack}>
+          <Button variant="outline" onClick={handleBack}>
             <ArrowLeft className="w-4 h-4 mr-2" />
             BACK
           </Button>
           <div>
-            <h2 className="text-2xl font-bold">Edit: {template.name}</h2>
+            <h2 className="text-2xl font-bold">Edit: {savedMeme?.name ?? template.name}</h2>
             <p className="text-muted-foreground">Create your meme masterpiece</p>
           </div>
         </div>
         <div className="flex gap-3">
-          <Button onClick={downloadMeme} className="btn-gradient text-primary-foreground">
+          <GuidesMenu settings={guides.settings} onChange={guides.update} />
+          <Button variant="outline" size="icon" onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (?)">
+            <Keyboard className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={saveMeme}
+            disabled={saving || loading}
+            title={user ? undefined : "Sign in to save memes"}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {savedMeme ? "Save" : "Save to My Memes"}
+          </Button>
+          <Button onClick={downloadMeme} disabled={isExporting} className="btn-gradient text-primary-foreground">
             <Download className="w-4 h-4 mr-2" />
             Download Meme
           </Button>
@@ -838,12 +1350,21 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
           {/* Element Selection Toolbar */}
           {selectedObject && (
             <div className="bg-card p-4 rounded-xl border border-border">
-              <h3 className="text-sm font-semibold mb-3">Selected Element</h3>
+              <h3 className="text-sm font-semibold mb-3">
+                {isMultiSelection ? `${selectedObjects.length} Elements Selected` : "Selected Element"}
+              </h3>
               <div className="flex items-center gap-2 mb-3">
-                <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete">
-                  <Trash2 className="w-4 h-4 text-destructive" />
-                </Button>
-                {(selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle") && (
+                {selectedObjects.every(canDeleteElement) ? (
+                  <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete">
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                ) : (
+                  <span className="flex items-center text-xs text-muted-foreground">
+                    <Lock className="w-3 h-3 mr-1" />
+                    {selectedObject.permissions?.textOnly ? 'Only the text can be changed' : 'Position locked'}
+                  </span>
+                )}
+                {colorTargets.length > 0 && (
                   <div className="flex items-center gap-2">
                     <span className="text-xs">Color</span>
                     <button
@@ -860,7 +1381,41 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
                   </div>
                 )}
               </div>
-              {selectedObject.type === "textbox" && (
+              {selectedObject.slot && (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Drag to pan, scroll or use the corners to zoom
+                  </p>
+                  <Button variant="outline" size="sm" className="w-full" onClick={() => openSlotFilePicker(selectedObject.slot)}>
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    Replace Photo
+                  </Button>
+                  <Button variant="outline" size="sm" className="w-full" onClick={resetSlotPhoto}>
+                    <Maximize className="w-4 h-4 mr-2" />
+                    Reset Fit
+                  </Button>
+                </div>
+              )}
+              {canArrange && fabricCanvas && (
+                <div className="mb-3 space-y-4">
+                  <ArrangePanel
+                    canvas={fabricCanvas}
+                    objects={selectedObjects}
+                    canGroup={canGroup}
+                    canUngroup={canUngroup}
+                    onGroup={handleGroup}
+                    onUngroup={handleUngroup}
+                    onCommand={history.push}
+                  />
+                  <ObjectInspector
+                    canvas={fabricCanvas}
+                    target={selectedObject}
+                    objects={selectedObjects}
+                    onCommand={history.push}
+                  />
+                </div>
+              )}
+              {fontTargets.length > 0 && (
                 <div>
                   <Label className="text-xs">Font</Label>
                   <Select value={font} onValueChange={handleFontChange}>
@@ -873,6 +1428,11 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
                       ))}
                     </SelectContent>
                   </Select>
+                  {fabricCanvas && fontTargets[0] === selectedObject && (
+                    <div className="mt-4">
+                      <TextInspector canvas={fabricCanvas} textbox={selectedObject} onCommand={handleTextStyleCommand} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -995,16 +1555,19 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
               Elements
             </h3>
             <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
-              <SortableContext items={elements.map((el) => el.__uid)} strategy={verticalListSortingStrategy}>
+              <SortableContext items={layerElements.map((el) => el.__uid)} strategy={verticalListSortingStrategy}>
                 <div className="space-y-1">
-                  {elements.map((obj, index) => (
+                  {layerElements.map((obj, index) => (
                     <SortableElementItem
                       key={obj.__uid || `element-${index}`} // FIX: Added unique key
                       id={obj.__uid}
                       obj={obj}
-                      isActive={selectedObject === obj}
+                      isActive={selectedObjects.includes(obj)}
+                      locked={isElementLocked(obj)}
                       onSelect={(o: any) => {
-                        if (fabricCanvas) {
+                        if (isSlotPlaceholder(o)) {
+                          openSlotFilePicker(o);
+                        } else if (fabricCanvas && o.selectable) {
                           fabricCanvas.setActiveObject(o);
                           setSelectedObject(o);
                         }
@@ -1027,26 +1590,41 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
         </div>
 
         {/* Canvas */}
-        <div className="lg:col-span-3">
+        <div className="lg:col-span-3 min-w-0">
           <div className="bg-card p-6 rounded-xl border border-border">
             <h3 className="text-lg font-semibold mb-4">Canvas</h3>
             {/* Canvas container with light black background - removed white borders and rounded corners */}
             <div 
-              className="flex items-center justify-center p-8"
+              ref={canvasContainerRef}
+              className="flex items-center justify-center p-8 h-[75vh] min-h-[420px]"
               style={{ 
                 backgroundColor: '#oeoe11', // Light black background
-                minHeight: `${canvasDimensions.height + 100}px` // Dynamic height based on canvas
               }}
             >
-              <div className="relative">
+              <div
+                className="relative"
+                onDragOver={handleSlotDragOver}
+                onDragLeave={() => highlightSlot(null)}
+                onDrop={handleSlotDrop}
+              >
+                <input
+                  ref={slotInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleSlotFileChange}
+                  className="hidden"
+                />
                 <canvas 
                   ref={canvasRef} 
                   style={{
-                    width: `${canvasDimensions.width}px`,
-                    height: `${canvasDimensions.height}px`,
+                    width: `${viewport.display.width}px`,
+                    height: `${viewport.display.height}px`,
                     display: 'block'
                   }}
                 />
+                {guides.settings.showRulers && (
+                  <CanvasRulers width={viewport.display.width} height={viewport.display.height} zoom={viewport.zoom} />
+                )}
                 {loading && (
                   <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
                     <div className="text-sm text-muted-foreground">Loading template...</div>
@@ -1057,6 +1635,33 @@ export const MemeEditor = ({ template, onBack }: MemeEditorProps) => {
           </div>
         </div>
       </div>
+
+      <VideoExportDialog
+        open={isExporting}
+        progress={exportProgress}
+        duration={maxDuration}
+        onCancel={cancelExport}
+      />
+
+      <ShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
+      <AccountDialog open={showAccount} onOpenChange={setShowAccount} />
+
+      <AlertDialog open={!!pendingDraft}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Resume your draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You have unsaved edits to this meme from {pendingDraft && new Date(pendingDraft.savedAt).toLocaleString()}.
+              {pendingDraft && pendingDraft.templateUpdatedAt !== template.updated_at &&
+                ' The template has been changed since, so some parts may look different.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleDiscardDraft}>Discard Draft</AlertDialogCancel>
+            <AlertDialogAction onClick={handleResumeDraft} disabled={loading}>Resume</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,160 @@
+import { useEffect, useReducer, useState } from "react";
+import { FlipHorizontal2, FlipVertical2, Link2, Link2Off } from "lucide-react";
+import { Canvas as FabricCanvas, FabricObject } from "fabric";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Toggle } from "@/components/ui/toggle";
+import { getNestedObjects } from "@/lib/fabricLayout";
+import {
+  flipObject,
+  getObjectGeometry,
+  hasCornerRadius,
+  hasFixedHeight,
+  ObjectGeometry,
+  setObjectGeometry,
+  setObjectsProperties,
+} from "@/lib/geometry";
+import { HistoryCommand } from "@/lib/history";
+
+interface ObjectInspectorProps {
+  canvas: FabricCanvas;
+  /** The selected object, or the ActiveSelection holding several */
+  target: FabricObject;
+  objects: FabricObject[];
+  /** Receives the undo command for every change */
+  onCommand: (command: HistoryCommand) => void;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Commits on Enter or blur, so typing a number never half-applies it
+const NumberField = ({ label, value, onCommit, disabled, suffix }: {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  disabled?: boolean;
+  suffix?: string;
+}) => (
+  <div>
+    <Label className="text-xs text-muted-foreground">{label}{suffix && ` (${suffix})`}</Label>
+    <Input
+      key={value}
+      type="number"
+      defaultValue={round(value)}
+      disabled={disabled}
+      onBlur={(e) => {
+        const next = parseFloat(e.target.value);
+        if (Number.isFinite(next) && next !== round(value)) onCommit(next);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+      className="h-8 text-xs mt-1"
+    />
+  </div>
+);
+
+/** Exact position, size, rotation, opacity, corner radius and flipping for the selection */
+export const ObjectInspector = ({ canvas, target, objects, onCommand }: ObjectInspectorProps) => {
+  // Geometry lives on the fabric objects, so re-render whenever they change
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const [lockRatio, setLockRatio] = useState(true);
+
+  useEffect(() => {
+    const events = ['object:moving', 'object:scaling', 'object:rotating', 'object:resizing', 'object:modified'] as const;
+    events.forEach((event) => canvas.on(event, refresh));
+    return () => events.forEach((event) => canvas.off(event, refresh));
+  }, [canvas]);
+
+  const geometry = getObjectGeometry(target);
+  const fixedHeight = hasFixedHeight(target);
+  const rects = objects.flatMap(getNestedObjects).filter(hasCornerRadius);
+
+  const apply = (command: HistoryCommand) => {
+    onCommand(command);
+    refresh();
+  };
+
+  // Canvas units are output pixels, so the fields read in the exported image's units
+  const updateGeometry = (changes: Partial<ObjectGeometry>, label: string) =>
+    apply(setObjectGeometry(canvas, target, changes, label));
+
+  const updateWidth = (width: number) => {
+    const ratio = geometry.height / geometry.width;
+    const height = lockRatio && !fixedHeight && Number.isFinite(ratio) ? width * ratio : undefined;
+    updateGeometry({ width, height }, 'Resize');
+  };
+
+  const updateHeight = (height: number) => {
+    const ratio = geometry.width / geometry.height;
+    const width = lockRatio && Number.isFinite(ratio) ? height * ratio : undefined;
+    updateGeometry({ height, width }, 'Resize');
+  };
+
+  const getCornerRadius = (rect: FabricObject) => (rect.get('rx') ?? 0) * rect.getObjectScaling().x;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="X" value={geometry.x} onCommit={(x) => updateGeometry({ x }, 'Move')} />
+        <NumberField label="Y" value={geometry.y} onCommit={(y) => updateGeometry({ y }, 'Move')} />
+      </div>
+      <div className="flex items-end gap-1">
+        <div className="grid grid-cols-2 gap-2 flex-1">
+          <NumberField label="W" value={geometry.width} onCommit={updateWidth} />
+          <NumberField label="H" value={geometry.height} onCommit={updateHeight} disabled={fixedHeight} />
+        </div>
+        <Toggle
+          size="sm"
+          pressed={lockRatio}
+          onPressedChange={setLockRatio}
+          disabled={fixedHeight}
+          aria-label="Lock aspect ratio"
+          title={fixedHeight ? "Text height follows its content" : "Lock aspect ratio"}
+        >
+          {lockRatio ? <Link2 className="w-4 h-4" /> : <Link2Off className="w-4 h-4" />}
+        </Toggle>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Rotation"
+          suffix="°"
+          value={geometry.angle}
+          onCommit={(angle) => updateGeometry({ angle: ((angle % 360) + 360) % 360 }, 'Rotate')}
+        />
+        {rects.length > 0 && (
+          <NumberField
+            label="Corner radius"
+            value={getCornerRadius(rects[0])}
+            onCommit={(radius) => apply(setObjectsProperties(canvas, rects, (rect) => {
+              const corner = Math.max(0, radius / rect.getObjectScaling().x);
+              return { rx: corner, ry: corner };
+            }, 'Corner radius'))}
+          />
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label className="text-xs">Opacity {Math.round(objects[0].opacity * 100)}%</Label>
+        <Slider
+          min={0}
+          max={100}
+          step={1}
+          value={[Math.round(objects[0].opacity * 100)]}
+          onValueChange={([opacity]) => apply(setObjectsProperties(canvas, objects, () => ({ opacity: opacity / 100 }), 'Opacity'))}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => apply(flipObject(canvas, target, 'x'))}>
+          <FlipHorizontal2 className="w-4 h-4 mr-2" />
+          Flip H
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => apply(flipObject(canvas, target, 'y'))}>
+          <FlipVertical2 className="w-4 h-4 mr-2" />
+          Flip V
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { Scaling } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CANVAS_PRESETS, findCanvasPreset } from "@/lib/canvasPresets";
+import { parseTags } from "@/lib/templateSearch";
+import { CanvasSize } from "@/lib/viewport";
+import { CanvasSizePicker } from "./CanvasSizePicker";
+
+/** What the resized copy is saved as */
+export interface ResizedTemplateCopy {
+  size: CanvasSize;
+  name: string;
+  type: 'photo' | 'video';
+  tags: string[];
+}
+
+interface ResizeTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Size of the template being resized */
+  currentSize: CanvasSize;
+  templateName: string;
+  templateType: 'photo' | 'video';
+  templateTags: string[];
+  creating: boolean;
+  /** Creates the resized copy; the dialog closes once it resolves to true */
+  onCreate: (copy: ResizedTemplateCopy) => Promise<boolean>;
+}
+
+const isSameSize = (a: CanvasSize, b: CanvasSize) => a.width === b.width && a.height === b.height;
+
+// First preset that differs from the current size, as the likeliest target
+const pickInitialSize = (current: CanvasSize): CanvasSize => {
+  const preset = CANVAS_PRESETS.find((candidate) => !isSameSize(candidate, current)) ?? CANVAS_PRESETS[0];
+  return { width: preset.width, height: preset.height };
+};
+
+/** Picks a size and name for a copy of the template at another aspect ratio */
+export const ResizeTemplateDialog = ({
+  open,
+  onOpenChange,
+  currentSize,
+  templateName,
+  templateType,
+  templateTags,
+  creating,
+  onCreate,
+}: ResizeTemplateDialogProps) => {
+  const [size, setSize] = useState(() => pickInitialSize(currentSize));
+  const [name, setName] = useState("");
+  const [type, setType] = useState(templateType);
+  // Starts from the source tags, shown so they are reused only on purpose
+  const [tagInput, setTagInput] = useState(() => templateTags.join(", "));
+
+  // Start over from the source template the next time the dialog opens
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setSize(pickInitialSize(currentSize));
+      setName("");
+      setType(templateType);
+      setTagInput(templateTags.join(", "));
+    }
+    onOpenChange(next);
+  };
+
+  const preset = findCanvasPreset(size);
+  // Named after the target size unless the admin types a name
+  const defaultName = `${templateName || "Untitled"} · ${preset ? preset.label : `${size.width}×${size.height}`}`;
+
+  const handleCreate = async () => {
+    const created = await onCreate({ size, name: name.trim() || defaultName, type, tags: parseTags(tagInput) });
+    if (created) handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scaling className="w-5 h-5" />
+            Resize to…
+          </DialogTitle>
+          <DialogDescription>
+            Creates a new template at another size. Elements move by their resize rules; the rest keep their
+            relative position.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Size</Label>
+            <CanvasSizePicker value={size} onChange={setSize} />
+          </div>
+          <div>
+            <Label htmlFor="resized-template-name">Name</Label>
+            <Input
+              id="resized-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={defaultName}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="resized-template-type">Type</Label>
+            <Select value={type} onValueChange={(value: 'photo' | 'video') => setType(value)}>
+              <SelectTrigger id="resized-template-type" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="photo">Photo</SelectItem>
+                <SelectItem value="video">Video</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="resized-template-tags">Tags</Label>
+            <Input
+              id="resized-template-tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Comma-separated, e.g. reaction, story"
+              className="mt-1"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={creating}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={creating || isSameSize(size, currentSize)}>
+            {creating ? "Creating..." : "Create Template"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,45 @@
+import { Keyboard } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SHORTCUT_GROUPS } from "@/lib/shortcuts";
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShortcutsDialog = ({ open, onOpenChange }: ShortcutsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Keyboard className="w-5 h-5" />
+          Keyboard Shortcuts
+        </DialogTitle>
+        <DialogDescription>
+          Shortcuts work anywhere in the editor except while typing in a field or text box.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4">
+        {SHORTCUT_GROUPS.map((group) => (
+          <div key={group.title}>
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-2">{group.title}</h4>
+            <div className="space-y-1.5">
+              {group.shortcuts.map(({ keys, description }) => (
+                <div key={description} className="flex items-center justify-between text-sm">
+                  <span>{description}</span>
+                  <span className="flex gap-1">
+                    {keys.map((key) => (
+                      <kbd key={key} className="rounded border border-border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -1,14 +1,42 @@
-import { Image, Video, Plus, Menu, X } from "lucide-react";
+import { Image, Video, Plus, Menu, X, Shield, FilePen, Smile, LogIn, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
+import { getDraftKey, MemeDraftSummary } from "@/lib/drafts";
+import type { UserMemeSummary } from "@/hooks/use-user-memes";
 
 interface SidebarProps {
   activeTab: 'photo' | 'video';
   onTabChange: (tab: 'photo' | 'video') => void;
   onCreateTemplate: () => void;
+  onOpenAdmin: () => void;
+  drafts: MemeDraftSummary[];
+  onOpenDraft: (draft: MemeDraftSummary) => void;
+  onDeleteDraft: (draft: MemeDraftSummary) => void;
+  /** Saved memes of the signed-in user; undefined when nobody is signed in */
+  memes?: UserMemeSummary[];
+  onOpenMeme: (meme: UserMemeSummary) => void;
+  onDeleteMeme: (meme: UserMemeSummary) => void;
+  /** Email of the signed-in user; undefined when nobody is signed in */
+  userEmail?: string;
+  onSignIn: () => void;
+  onSignOut: () => void;
 }
 
-export const Sidebar = ({ activeTab, onTabChange, onCreateTemplate }: SidebarProps) => {
+export const Sidebar = ({
+  activeTab,
+  onTabChange,
+  onCreateTemplate,
+  onOpenAdmin,
+  drafts,
+  onOpenDraft,
+  onDeleteDraft,
+  memes,
+  onOpenMeme,
+  onDeleteMeme,
+  userEmail,
+  onSignIn,
+  onSignOut,
+}: SidebarProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   return (
@@ -73,6 +101,131 @@ export const Sidebar = ({ activeTab, onTabChange, onCreateTemplate }: SidebarPro
             </button>
           </nav>
 
+          {/* Memes saved to the signed-in user's account */}
+          {memes && (
+            <div className="pt-4 border-t border-border">
+              {isExpanded ? (
+                <>
+                  <h2 className="text-xs font-semibold uppercase text-muted-foreground mb-2">My Memes</h2>
+                  {memes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Memes you save from the editor show up here</p>
+                  ) : (
+                    <ul className="space-y-1 max-h-64 overflow-y-auto">
+                      {memes.map((meme) => (
+                        <li key={meme.id} className="group flex items-center gap-2 rounded-lg hover:bg-accent">
+                          <button
+                            onClick={() => onOpenMeme(meme)}
+                            className="flex flex-1 items-center gap-2 min-w-0 p-2 text-left"
+                          >
+                            {meme.thumbnail_url ? (
+                              <img src={meme.thumbnail_url} alt="" className="w-8 h-8 rounded object-cover shrink-0" />
+                            ) : (
+                              <Smile className="w-5 h-5 shrink-0" />
+                            )}
+                            <span className="min-w-0">
+                              <span className="block text-sm font-medium truncate">{meme.name}</span>
+                              <span className="block text-xs text-muted-foreground">
+                                {new Date(meme.updated_at).toLocaleString()}
+                              </span>
+                            </span>
+                          </button>
+                          <button
+                            onClick={() => onDeleteMeme(meme)}
+                            className="p-1 mr-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background transition-opacity"
+                            title="Delete meme"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              ) : (
+                <div className="w-fit mx-auto p-2" title="My Memes">
+                  <Smile className="w-5 h-5" />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Memes in progress, autosaved in this browser */}
+          {drafts.length > 0 && (
+            <div className="pt-4 border-t border-border">
+              {isExpanded ? (
+                <>
+                  <h2 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Drafts</h2>
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {drafts.map((draft) => (
+                      <li key={getDraftKey(draft)} className="group flex items-center gap-2 rounded-lg hover:bg-accent">
+                        <button
+                          onClick={() => onOpenDraft(draft)}
+                          className="flex flex-1 items-center gap-2 min-w-0 p-2 text-left"
+                        >
+                          {draft.thumbnailUrl ? (
+                            <img src={draft.thumbnailUrl} alt="" className="w-8 h-8 rounded object-cover shrink-0" />
+                          ) : (
+                            <FilePen className="w-5 h-5 shrink-0" />
+                          )}
+                          <span className="min-w-0">
+                            <span className="block text-sm font-medium truncate">{draft.templateName}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {new Date(draft.savedAt).toLocaleString()}
+                            </span>
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => onDeleteDraft(draft)}
+                          className="p-1 mr-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background transition-opacity"
+                          title="Discard draft"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <div className="relative w-fit mx-auto p-2" title={`${drafts.length} draft(s)`}>
+                  <FilePen className="w-5 h-5" />
+                  <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4 text-center">
+                    {drafts.length}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Account, needed to save memes to My Memes */}
+          <div className="pt-4 border-t border-border">
+            {userEmail ? (
+              <>
+                {isExpanded && (
+                  <p className="text-xs text-muted-foreground truncate mb-2" title={userEmail}>{userEmail}</p>
+                )}
+                <Button
+                  onClick={onSignOut}
+                  variant="ghost"
+                  className={`w-full ${!isExpanded ? 'p-2 aspect-square' : 'justify-start'}`}
+                  title={!isExpanded ? 'Sign out' : ''}
+                >
+                  <LogOut className={`w-4 h-4 ${isExpanded ? 'mr-2' : ''}`} />
+                  {isExpanded && 'Sign out'}
+                </Button>
+              </>
+            ) : (
+              <Button
+                onClick={onSignIn}
+                variant="outline"
+                className={`w-full ${!isExpanded ? 'p-2 aspect-square' : ''}`}
+                title={!isExpanded ? 'Sign in' : ''}
+              >
+                <LogIn className={`w-4 h-4 ${isExpanded ? 'mr-2' : ''}`} />
+                {isExpanded && 'Sign in'}
+              </Button>
+            )}
+          </div>
+
           {/* Create Template Button */}
           <div className="pt-4 border-t border-border">
             <Button
@@ -85,6 +238,15 @@ export const Sidebar = ({ activeTab, onTabChange, onCreateTemplate }: SidebarPro
               <Plus className={`w-4 h-4 ${isExpanded ? 'mr-2' : ''}`} />
               {isExpanded && 'Create Template'}
             </Button>
+            <Button
+              onClick={onOpenAdmin}
+              variant="outline"
+              className={`w-full mt-2 ${!isExpanded ? 'p-2 aspect-square' : ''}`}
+              title={!isExpanded ? 'Admin Panel' : ''}
+            >
+              <Shield className={`w-4 h-4 ${isExpanded ? 'mr-2' : ''}`} />
+              {isExpanded && 'Admin Panel'}
+            </Button>
           </div>
 
           {/* Footer */}
@@ -1,33 +1,70 @@
-import { useState, useEffect, useRef } from "react";
-import { X, Upload, Type, Square, Circle, Download, Save, User, Lock, Trash2, AlignLeft, Layers, Image as ImageIcon, Video, Play, Pause } from "lucide-react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { X, Upload, Type, Square, Circle, Download, Save, Lock, Trash2, AlignLeft, Layers, Image as ImageIcon, ImagePlus, EyeOff, Video, Play, Pause, Undo2, Redo2, Keyboard, Group as GroupIcon, Scaling } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Canvas as FabricCanvas, Rect, Circle as FabricCircle, Textbox, FabricImage } from "fabric";
+import { ActiveSelection, Canvas as FabricCanvas, Rect, Circle as FabricCircle, Textbox, FabricImage, FabricObject, Group } from "fabric";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
 import { arrayMove, SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useVideoExport } from "@/hooks/use-video-export";
+import { VideoExportDialog } from "./VideoExportDialog";
+import { TextInspector } from "./TextInspector";
+import { ShortcutsDialog } from "./ShortcutsDialog";
+import { GuidesMenu } from "./GuidesMenu";
+import { CanvasRulers } from "./CanvasRulers";
+import { ArrangePanel } from "./ArrangePanel";
+import { ObjectInspector } from "./ObjectInspector";
+import { CanvasSizePicker } from "./CanvasSizePicker";
+import { ResizedTemplateCopy, ResizeTemplateDialog } from "./ResizeTemplateDialog";
+import { AdminLoginForm } from "./AdminLoginForm";
+import { useAuth } from "@/hooks/use-auth";
+import { useCanvasHistory } from "@/hooks/use-canvas-history";
+import { useEditorShortcuts } from "@/hooks/use-editor-shortcuts";
+import { useCanvasGuides } from "@/hooks/use-canvas-guides";
+import { useCanvasViewport } from "@/hooks/use-canvas-viewport";
+import { createPropertyCommand, createReorderCommand, HistoryCommand } from "@/lib/history";
+import { setObjectsProperties } from "@/lib/geometry";
+import { watchUppercaseText } from "@/lib/textStyle";
+import { DEFAULT_AUTO_FIT_RANGE, fitTextToBox, FittedTextbox, refitAllText, watchAutoFitText } from "@/lib/textFit";
+import { ElementConstraints, formatLayoutErrors, LAYOUT_SCHEMA_VERSION, LayoutDefinition, parseLayoutDefinition, SlotFit, TextAutoFit } from "@/lib/layout";
+import { loadLayoutDefinition } from "@/lib/layoutMigrations";
+import { AssetUrlMaps, createObjectFromElement, EditorObject, EditorObjectMeta, getNestedObjects, normalizeConstraints, normalizePermissions, serializeCanvasObject } from "@/lib/fabricLayout";
+import { ElementPermission, isElementLocked, isHiddenFromLayers, PERMISSION_OPTIONS } from "@/lib/elementPermissions";
+import { getTemplateAssetPath } from "@/lib/storage";
+import { enforceSlotAspectRatio, isSlotPlaceholder, SLOT_ASPECT_RATIOS, SLOT_FIT_OPTIONS, SlotPlaceholder } from "@/lib/slots";
+import { copyObjects, duplicateObjects, PastedObject, pasteObjects } from "@/lib/clipboard";
+import { selectObjects } from "@/lib/selection";
+import { canGroupObject, groupObjects, ungroupObject } from "@/lib/grouping";
+import { renderCanvasThumbnail, renderLayoutThumbnail } from "@/lib/templateThumbnail";
+import { HORIZONTAL_CONSTRAINT_OPTIONS, RELATIVE_CONSTRAINT, resizeLayout, VERTICAL_CONSTRAINT_OPTIONS } from "@/lib/resize";
+import { CanvasSize, getDefaultOutputSize, renderAtOutputSize, scaleNewObject } from "@/lib/viewport";
+import { Template } from "./Dashboard";
 
 const FONT_OPTIONS = [
   "Arial", "Arial Black", "Comic Sans MS", "Courier New", "Georgia", "Impact", "Tahoma", "Times New Roman", "Trebuchet MS", "Verdana"
 ];
 
-// Helper function to convert data URL to blob
-const dataURLtoBlob = (dataURL: string): Blob => {
-  const arr = dataURL.split(',');
-  const mime = arr[0].match(/:(.*?);/)![1];
-  const bstr = atob(arr[1]);
-  let n = bstr.length;
-  const u8arr = new Uint8Array(n);
-  while (n--) {
-    u8arr[n] = bstr.charCodeAt(n);
-  }
-  return new Blob([u8arr], { type: mime });
-};
+// Element types the colour picker fills
+const COLOR_TYPES = ["textbox", "rect", "circle"];
+
+interface SlotSettings {
+  slotName: string;
+  aspectRatio: number | null;
+  fit: SlotFit;
+}
+
+const getSlotSettings = (slot: SlotPlaceholder): SlotSettings => ({
+  slotName: slot.slotName,
+  aspectRatio: slot.aspectRatio,
+  fit: slot.fit,
+});
 
 // Helper function to generate unique filename
 const generateFileName = (originalName: string, prefix: string = 'image'): String => {
@@ -37,23 +74,14 @@ const generateFileName = (originalName: string, prefix: string = 'image'): Strin
   return `${prefix}-${timestamp}-${randomString}.${extension}`;
 };
 
-// Helper function to get actual rendered dimensions of fabric object
-const getActualObjectDimensions = (obj: any) => {
-  const bounds = obj.getBoundingRect();
-  return {
-    x: bounds.left,
-    y: bounds.top,
-    width: bounds.width,
-    height: bounds.height
-  };
-};
-
 function getElementTypeIcon(type: string) {
   if (type === "textbox") return <AlignLeft className="w-4 h-4" />;
   if (type === "rect") return <Square className="w-4 h-4" />;
   if (type === "circle") return <Circle className="w-4 h-4" />;
   if (type === "image") return <ImageIcon className="w-4 h-4" />;
   if (type === "video") return <Video className="w-4 h-4" />;
+  if (type === "slot") return <ImagePlus className="w-4 h-4" />;
+  if (type === "group") return <GroupIcon className="w-4 h-4" />;
   return <Layers className="w-4 h-4" />;
 }
 
@@ -63,6 +91,8 @@ function getElementLabel(obj: any) {
   if (obj.type === "circle") return "Circle";
   if (obj.type === "image") return obj?.originalFileName || "Image";
   if (obj.type === "video") return obj?.originalFileName || "Video";
+  if (obj.type === "slot") return `Slot: ${obj.slotName}`;
+  if (obj.type === "group") return `Group (${obj.size()})`;
   return obj.type;
 }
 
@@ -87,32 +117,61 @@ function SortableElementItem({ id, obj, isActive, onSelect }: any) {
     <div ref={setNodeRef} style={style} {...attributes} {...listeners} onClick={() => onSelect(obj)}>
       {getElementTypeIcon(obj.type)}
       <span className="text-xs font-medium text-muted-foreground">{getElementLabel(obj)}</span>
+      <span className="ml-auto flex gap-1 text-muted-foreground">
+        {isElementLocked(obj) && <Lock className="w-3 h-3" />}
+        {isHiddenFromLayers(obj) && <EyeOff className="w-3 h-3" />}
+      </span>
     </div>
   );
 }
 
 interface TemplateCreatorProps {
   onClose: () => void;
+  /** Existing template to edit; omitted when creating a new one */
+  template?: Template;
+  /** Called after the template has been inserted or updated */
+  onSaved?: () => void;
+  /** Maximum number of undo steps */
+  historyDepth?: number;
 }
 
-export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
+export const TemplateCreator = ({ onClose, template, onSaved, historyDepth }: TemplateCreatorProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
   const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
-  const [templateName, setTemplateName] = useState("");
-  const [templateType, setTemplateType] = useState<'photo' | 'video'>('photo');
+  const [templateName, setTemplateName] = useState(template?.name ?? "");
+  const [templateType, setTemplateType] = useState<'photo' | 'video'>(template?.type ?? 'photo');
   const [loading, setLoading] = useState(false);
+  const [layoutLoading, setLayoutLoading] = useState(false);
   const [showAdminModal, setShowAdminModal] = useState(false);
-  const [adminUsername, setAdminUsername] = useState("");
-  const [adminPassword, setAdminPassword] = useState("");
-  const [adminLoading, setAdminLoading] = useState(false);
   const [selectedObject, setSelectedObject] = useState<any>(null);
   const [color, setColor] = useState("#000000");
   const [font, setFont] = useState(FONT_OPTIONS[0]);
+  const [slotSettings, setSlotSettings] = useState<SlotSettings | null>(null);
   const [elements, setElements] = useState<any[]>([]);
   const [videoElements, setVideoElements] = useState<any[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [maxDuration, setMaxDuration] = useState(0);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showResize, setShowResize] = useState(false);
+  const [resizing, setResizing] = useState(false);
+  const { isExporting, progress: exportProgress, startExport, cancelExport } = useVideoExport();
+  const { isAdmin } = useAuth();
+  const history = useCanvasHistory(fabricCanvas, {
+    depth: historyDepth,
+    onChange: () => {
+      if (!fabricCanvas) return;
+      refitAllText(fabricCanvas);
+      setElements([...fabricCanvas.getObjects()]);
+      const active = fabricCanvas.getActiveObject();
+      setSelectedObject(active || null);
+      if (active && typeof active.fill === 'string') setColor(active.fill);
+      if (active instanceof Textbox) setFont(active.fontFamily);
+      setSlotSettings(isSlotPlaceholder(active) ? getSlotSettings(active) : null);
+    },
+  });
+  const guides = useCanvasGuides(fabricCanvas);
   
   // Store original files for upload after admin authentication
   const [pendingImageUploads, setPendingImageUploads] = useState<{[key: string]: File}>({});
@@ -121,30 +180,39 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
   // DnD-kit setup
   const sensors = useSensors(useSensor(PointerSensor));
 
-  // FIXED: Canvas dimensions now match display dimensions (for smaller video canvas)
-  const getCanvasDimensions = () => {
-    if (templateType === 'video') {
-      // Video canvas: same height as photo but narrower (maintains 9:16 ratio)
-      const height = 500;
-      const width = Math.round(height * (9/16)); // 400 * (9/16) = 225px
-      return { width, height };
-    }
-    return { width: 400, height: 400 }; // Photo: 1:1 ratio
-  };
-
-  // FIXED: Original dimensions only for download (true reel size)
-  const getOriginalDimensions = () => {
-    if (templateType === 'video') {
-      return { width: 400, height: 711 }; // Original reel dimensions for download only
-    }
-    return { width: 400, height: 400 }; // Photo remains same
-  };
+  // Stored layout of the template being edited, upgraded to the current format
+  const editingLayout = useMemo(
+    () => (template ? loadLayoutDefinition(template.layout_definition, { type: template.type }) : null),
+    [template]
+  );
+  const storedLayout = editingLayout && editingLayout.success ? editingLayout.data : null;
+  const loadTemplateLayoutRef = useRef<(layout: LayoutDefinition) => Promise<void>>();
+
+  // Output resolution of the template; the canvas is zoomed to fit on screen
+  const [canvasSize, setCanvasSize] = useState<CanvasSize>(() =>
+    storedLayout
+      ? { width: storedLayout.canvas.width, height: storedLayout.canvas.height }
+      : getDefaultOutputSize(templateType)
+  );
+  const viewport = useCanvasViewport(fabricCanvas, canvasContainerRef, canvasSize);
 
   // Set canvas background color based on template type
   const getCanvasBackgroundColor = () => {
+    if (storedLayout) return storedLayout.canvas.backgroundColor;
     return templateType === 'video' ? '#000000' : '#ffffff';
   };
 
+  // Stretch the background image over the canvas whenever its size changes
+  useEffect(() => {
+    const background = fabricCanvas?.backgroundImage;
+    if (!background) return;
+    background.set({
+      scaleX: canvasSize.width / (background.width || 1),
+      scaleY: canvasSize.height / (background.height || 1),
+    });
+    fabricCanvas.requestRenderAll();
+  }, [fabricCanvas, canvasSize]);
+
   // Update canvas background immediately when template type changes
   useEffect(() => {
     if (fabricCanvas) {
@@ -156,22 +224,22 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
 
   useEffect(() => {
     if (!canvasRef.current) return;
-    const dimensions = getCanvasDimensions(); // FIXED: Use smaller dimensions for canvas
     const backgroundColor = getCanvasBackgroundColor();
     
     const canvas = new FabricCanvas(canvasRef.current, {
-      width: dimensions.width,
-      height: dimensions.height,
+      width: canvasSize.width,
+      height: canvasSize.height,
       backgroundColor: backgroundColor,
     });
     setFabricCanvas(canvas);
     
     // Selection event listeners
-    canvas.on("selection:created", (e) => {
-      setSelectedObject(e.selected?.[0] || null);
+    // Several selected objects come through as one ActiveSelection
+    canvas.on("selection:created", () => {
+      setSelectedObject(canvas.getActiveObject() || null);
     });
-    canvas.on("selection:updated", (e) => {
-      setSelectedObject(e.selected?.[0] || null);
+    canvas.on("selection:updated", () => {
+      setSelectedObject(canvas.getActiveObject() || null);
     });
     canvas.on("selection:cleared", () => {
       setSelectedObject(null);
@@ -187,6 +255,9 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
     canvas.on("object:modified", () => {
       setElements([...canvas.getObjects()]);
     });
+    canvas.on("object:scaling", ({ target }) => {
+      if (isSlotPlaceholder(target)) enforceSlotAspectRatio(target);
+    });
     
     return () => {
       canvas.dispose();
@@ -198,16 +269,168 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
     if (fabricCanvas) setElements([...fabricCanvas.getObjects()]);
   }, [fabricCanvas]);
 
+  // Recreate the stored layout when editing an existing template
+  const templateLabel = template?.name;
+  useEffect(() => {
+    if (!fabricCanvas || !editingLayout) return;
+    if (editingLayout.success === false) {
+      console.error('Invalid layout definition:', editingLayout.errors);
+      toast.error(`Template "${templateLabel}" could not be loaded`, {
+        description: formatLayoutErrors(editingLayout.errors),
+      });
+      return;
+    }
+    loadTemplateLayoutRef.current?.(editingLayout.data);
+  }, [fabricCanvas, editingLayout, templateLabel]);
+
+  // Objects in the current selection, and the ones a colour or font change applies to
+  const selectedObjects: EditorObject[] = selectedObject && fabricCanvas ? fabricCanvas.getActiveObjects() : [];
+  const isMultiSelection = selectedObject instanceof ActiveSelection;
+  const colorTargets = selectedObjects.flatMap(getNestedObjects).filter((obj) => COLOR_TYPES.includes(obj.type));
+  const fontTargets = colorTargets.filter((obj): obj is Textbox & EditorObjectMeta => obj instanceof Textbox);
+
   // Update color/font state when object is selected
+  const [firstColorTarget] = colorTargets;
+  const [firstFontTarget] = fontTargets;
   useEffect(() => {
-    if (!selectedObject) return;
-    if (selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle") {
-      setColor(selectedObject.fill || "#000000");
+    setSlotSettings(isSlotPlaceholder(selectedObject) ? getSlotSettings(selectedObject) : null);
+    if (firstColorTarget) {
+      setColor((firstColorTarget.fill as string) || "#000000");
+    }
+    if (firstFontTarget) {
+      setFont(firstFontTarget.fontFamily || FONT_OPTIONS[0]);
     }
-    if (selectedObject.type === "textbox") {
-      setFont(selectedObject.fontFamily || FONT_OPTIONS[0]);
+  }, [selectedObject, firstColorTarget, firstFontTarget]);
+
+  // Recalculate the preview length from the videos currently on the canvas
+  const syncMaxDuration = () => {
+    if (!fabricCanvas) return;
+    const durations = (fabricCanvas.getObjects() as EditorObject[])
+      .filter((obj) => obj.isVideo)
+      .map((obj) => obj.videoDuration || 0);
+    setMaxDuration(durations.length > 0 ? Math.max(...durations) : 0);
+  };
+
+  // Remove an object together with its pending uploads, grouped objects' included
+  const removeObject = (obj: EditorObject) => {
+    if (!fabricCanvas) return;
+    const nested = getNestedObjects(obj);
+    const imageIds = nested.map((child) => child.imageId).filter(Boolean);
+    const videoIds = nested.map((child) => child.videoId).filter(Boolean);
+    if (imageIds.length > 0) {
+      setPendingImageUploads(prev => {
+        const updated = { ...prev };
+        imageIds.forEach((id) => delete updated[id]);
+        return updated;
+      });
+    }
+    if (videoIds.length > 0) {
+      setPendingVideoUploads(prev => {
+        const updated = { ...prev };
+        videoIds.forEach((id) => delete updated[id]);
+        return updated;
+      });
+    }
+    if (fabricCanvas.getActiveObject() === obj) {
+      fabricCanvas.discardActiveObject();
+      setSelectedObject(null);
+    }
+    fabricCanvas.remove(obj);
+    fabricCanvas.requestRenderAll();
+    syncMaxDuration();
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Put a removed object back at its layer index, restoring its pending uploads by imageId / videoId
+  const restoreObject = (obj: EditorObject, index: number, files: Record<string, File> = {}) => {
+    if (!fabricCanvas) return;
+    fabricCanvas.insertAt(index, obj);
+    getNestedObjects(obj).forEach((nested) => {
+      if (nested.videoId && files[nested.videoId]) {
+        setPendingVideoUploads(prev => ({ ...prev, [nested.videoId]: files[nested.videoId] }));
+      } else if (nested.imageId && files[nested.imageId]) {
+        setPendingImageUploads(prev => ({ ...prev, [nested.imageId]: files[nested.imageId] }));
+      }
+    });
+    fabricCanvas.requestRenderAll();
+    syncMaxDuration();
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Record an add (present = true, call after adding) or delete (call before removing)
+  const pushPresenceCommand = (obj: EditorObject, label: string, present: boolean, files?: Record<string, File>) => {
+    if (!fabricCanvas) return;
+    const index = fabricCanvas.getObjects().indexOf(obj);
+    const add = () => restoreObject(obj, index, files);
+    const remove = () => removeObject(obj);
+    history.push({ label, undo: present ? remove : add, redo: present ? add : remove });
+  };
+
+  // Pending uploads behind the images and videos added during this edit, keyed by their ids
+  const getPendingFiles = (obj: EditorObject) => {
+    const files: Record<string, File> = {};
+    getNestedObjects(obj).forEach((nested) => {
+      if (nested.imageId && pendingImageUploads[nested.imageId]) files[nested.imageId] = pendingImageUploads[nested.imageId];
+      if (nested.videoId && pendingVideoUploads[nested.videoId]) files[nested.videoId] = pendingVideoUploads[nested.videoId];
+    });
+    return files;
+  };
+
+  // Record several objects added or removed together as one step, e.g. a paste or multi-delete
+  const pushGroupPresenceCommand = (entries: { obj: EditorObject; files?: Record<string, File> }[], label: string, present: boolean) => {
+    if (!fabricCanvas) return;
+    const stack = fabricCanvas.getObjects();
+    // Restored bottom to top so each index is valid when it is reinserted
+    const indexed = entries
+      .map((entry) => ({ ...entry, index: stack.indexOf(entry.obj) }))
+      .sort((a, b) => a.index - b.index);
+    const add = () => indexed.forEach(({ obj, index, files }) => restoreObject(obj, index, files));
+    const remove = () => indexed.forEach(({ obj }) => removeObject(obj));
+    history.push({ label, undo: present ? remove : add, redo: present ? add : remove });
+  };
+
+  // Elements keep their uploaded URLs, so saving only uploads files added during this edit
+  const loadTemplateLayout = async (layout: LayoutDefinition) => {
+    if (!fabricCanvas) return;
+
+    try {
+      setLayoutLoading(true);
+
+      if (layout.canvas.backgroundImage) {
+        try {
+          const img = await FabricImage.fromURL(layout.canvas.backgroundImage, { crossOrigin: 'anonymous' });
+          img.set({
+            scaleX: layout.canvas.width / (img.width || 1),
+            scaleY: layout.canvas.height / (img.height || 1),
+          });
+          fabricCanvas.backgroundImage = img;
+        } catch (error) {
+          console.error('Error loading background image:', error);
+          toast.error('Failed to load background image');
+        }
+      }
+
+      for (const element of layout.elements) {
+        try {
+          fabricCanvas.add(await createObjectFromElement(element));
+        } catch (error) {
+          console.error(`Error loading ${element.type} element:`, error);
+          toast.error(error instanceof Error ? error.message : `Failed to load ${element.type} element`);
+        }
+      }
+
+      syncMaxDuration();
+      if (layout.maxDuration) {
+        setMaxDuration(prev => Math.max(prev, layout.maxDuration));
+      }
+      fabricCanvas.renderAll();
+      setElements([...fabricCanvas.getObjects()]);
+    } finally {
+      setLayoutLoading(false);
     }
-  }, [selectedObject]);
+  };
+  // Latest loader for the layout effect, which only reruns when the canvas or template changes
+  loadTemplateLayoutRef.current = loadTemplateLayout;
 
   // Multi-image upload handler - Store files locally, don't upload to Supabase yet
   const handleImagesUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -225,6 +448,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
             scaleX: 0.5, 
             scaleY: 0.5 
           });
+          scaleNewObject(img, canvasSize);
           
           // Store original file and filename for later upload
           const imageId = `image_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
@@ -240,6 +464,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
           fabricCanvas.add(img);
           fabricCanvas.setActiveObject(img);
           setElements([...fabricCanvas.getObjects()]);
+          pushPresenceCommand(img, 'Add image', true, { [imageId]: file });
         });
       };
       reader.readAsDataURL(file);
@@ -291,6 +516,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                 scaleX: 0.3, 
                 scaleY: 0.3 
               });
+              scaleNewObject(img, canvasSize);
               
               // Store video metadata and element for playback
               const videoId = `video_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
@@ -310,6 +536,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
               fabricCanvas.add(img);
               fabricCanvas.setActiveObject(img);
               setElements([...fabricCanvas.getObjects()]);
+              pushPresenceCommand(img, 'Add video', true, { [videoId]: file });
               
               // Update max duration for playback
               setMaxDuration(prev => Math.max(prev, video.duration));
@@ -383,42 +610,63 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
     }
   };
 
-  // Delete selected object
+  // Delete the given objects as one undo step
+  const deleteObjects = (objects: EditorObject[]) => {
+    if (!fabricCanvas || objects.length === 0) return;
+    fabricCanvas.discardActiveObject();
+    pushGroupPresenceCommand(objects.map((obj) => ({ obj, files: getPendingFiles(obj) })), 'Delete', false);
+    objects.forEach(removeObject);
+    setSelectedObject(null);
+  };
+
+  // Delete selected objects
   const handleDelete = () => {
-    if (fabricCanvas && selectedObject) {
-      // Remove from pending uploads if it's an image
-      if (selectedObject.imageId) {
-        setPendingImageUploads(prev => {
-          const updated = { ...prev };
-          delete updated[selectedObject.imageId];
-          return updated;
-        });
-      }
-      
-      // Remove from pending uploads if it's a video
-      if (selectedObject.videoId) {
-        setPendingVideoUploads(prev => {
-          const updated = { ...prev };
-          delete updated[selectedObject.videoId];
-          return updated;
-        });
-        
-        // Recalculate max duration
-        const remainingVideoObjects = fabricCanvas.getObjects().filter((obj: any) => obj.isVideo && obj !== selectedObject);
-        const newMaxDuration = remainingVideoObjects.length > 0 
-          ? Math.max(...remainingVideoObjects.map((obj: any) => obj.videoDuration))
-          : 0;
-        setMaxDuration(newMaxDuration);
-      }
-      
-      fabricCanvas.remove(selectedObject);
-      setSelectedObject(null);
-      fabricCanvas.discardActiveObject();
-      fabricCanvas.requestRenderAll();
-      setElements([...fabricCanvas.getObjects()]);
+    if (fabricCanvas) deleteObjects(fabricCanvas.getActiveObjects());
+  };
+
+  // Add pasted or duplicated copies on top of the stack and select them
+  const addCopies = (copies: PastedObject[], label: string) => {
+    if (!fabricCanvas || copies.length === 0) return;
+    copies.forEach(({ obj, files }) => restoreObject(obj, fabricCanvas.getObjects().length, files));
+    selectObjects(fabricCanvas, copies.map(({ obj }) => obj));
+    pushGroupPresenceCommand(copies, label, true);
+  };
+
+  const handleCopy = (objects: FabricObject[]) => {
+    copyObjects(objects, { ...pendingImageUploads, ...pendingVideoUploads });
+  };
+
+  const handlePaste = async () => {
+    try {
+      const copies = await pasteObjects();
+      if (copies) addCopies(copies, 'Paste');
+    } catch (error) {
+      toast.error("Failed to paste");
+      console.error('Error:', error);
     }
   };
 
+  const handleDuplicate = async (objects: FabricObject[]) => {
+    try {
+      addCopies(await duplicateObjects(objects, { ...pendingImageUploads, ...pendingVideoUploads }), 'Duplicate');
+    } catch (error) {
+      toast.error("Failed to duplicate");
+      console.error('Error:', error);
+    }
+  };
+
+  useEditorShortcuts(fabricCanvas, {
+    onCommand: history.push,
+    onChange: () => {
+      if (fabricCanvas) setElements([...fabricCanvas.getObjects()]);
+    },
+    onDelete: deleteObjects,
+    onCopy: handleCopy,
+    onPaste: handlePaste,
+    onDuplicate: handleDuplicate,
+    onShowShortcuts: () => setShowShortcuts(true),
+  });
+
   // Delete video element - Now handled by canvas object deletion
   const handleDeleteVideo = (videoId: string) => {
     // Remove from pending uploads
@@ -436,24 +684,123 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
     setMaxDuration(newMaxDuration);
   };
 
-  // Change color of selected object
+  // Set a property on every target as one undo step
+  const restyleObjects = (targets: FabricObject[], props: Record<string, unknown>, label: string) => {
+    if (!fabricCanvas || targets.length === 0) return;
+    history.push(setObjectsProperties(fabricCanvas, targets, () => props, label));
+  };
+
+  // Change color of the selected objects
   const handleColorChange = (newColor: string) => {
     setColor(newColor);
-    if (selectedObject && (selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle")) {
-      selectedObject.set({ fill: newColor });
-      if (fabricCanvas) fabricCanvas.requestRenderAll();
-    }
+    restyleObjects(colorTargets, { fill: newColor }, 'Change color');
   };
 
-  // Change font of selected text
+  // Change font of the selected text
   const handleFontChange = (value: string) => {
     setFont(value);
-    if (selectedObject && selectedObject.type === "textbox") {
-      selectedObject.set({ fontFamily: value });
-      if (fabricCanvas) fabricCanvas.requestRenderAll();
+    restyleObjects(fontTargets, { fontFamily: value }, 'Change font');
+  };
+
+  const canGroup = isMultiSelection && selectedObjects.every(canGroupObject);
+  const canUngroup = selectedObject instanceof Group && !isMultiSelection;
+
+  const handleGroup = () => {
+    if (!fabricCanvas || !canGroup) return;
+    history.push(groupObjects(fabricCanvas, selectedObjects));
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  const handleUngroup = () => {
+    if (!fabricCanvas || !canUngroup) return;
+    history.push(ungroupObject(fabricCanvas, selectedObject));
+    setElements([...fabricCanvas.getObjects()]);
+  };
+
+  // Toggle what end users may do with the selected element in MemeEditor
+  const handlePermissionChange = (key: ElementPermission, checked: boolean) => {
+    if (!fabricCanvas || !selectedObject) return;
+    const obj: EditorObject = selectedObject;
+    const before = { permissions: obj.permissions };
+    const after = { permissions: normalizePermissions({ ...obj.permissions, [key]: checked }) };
+    obj.set(after);
+    setElements([...fabricCanvas.getObjects()]);
+    history.push(createPropertyCommand(fabricCanvas, obj, before, after, 'Change permissions'));
+  };
+
+  // Choose how the selected element follows the canvas edges in resized copies
+  const handleConstraintChange = (axis: keyof ElementConstraints, value: string) => {
+    if (!fabricCanvas || !selectedObject) return;
+    const obj: EditorObject = selectedObject;
+    const before = { constraints: obj.constraints };
+    const after = {
+      constraints: normalizeConstraints({ ...obj.constraints, [axis]: value === RELATIVE_CONSTRAINT ? undefined : value }),
+    };
+    obj.set(after);
+    setElements([...fabricCanvas.getObjects()]);
+    history.push(createPropertyCommand(fabricCanvas, obj, before, after, 'Change resize rules'));
+  };
+
+  // Rename a slot, change its fit or lock it to a new aspect ratio
+  const handleSlotChange = (changes: Partial<SlotSettings>) => {
+    if (!fabricCanvas || !isSlotPlaceholder(selectedObject)) return;
+    const slot = selectedObject;
+    const before: Record<string, unknown> = { ...getSlotSettings(slot), scaleY: slot.scaleY };
+    slot.set(changes);
+    enforceSlotAspectRatio(slot);
+    slot.setCoords();
+    fabricCanvas.requestRenderAll();
+    const after: Record<string, unknown> = { ...getSlotSettings(slot), scaleY: slot.scaleY };
+    setSlotSettings(getSlotSettings(slot));
+    setElements([...fabricCanvas.getObjects()]);
+    history.push(createPropertyCommand(fabricCanvas, slot, before, after, 'Edit photo slot'));
+  };
+
+  // Inspector changes can also set fill and font (the classic meme preset)
+  const handleTextStyleCommand = (command: HistoryCommand) => {
+    history.push(command);
+    if (selectedObject) {
+      setColor(selectedObject.fill);
+      setFont(selectedObject.fontFamily);
     }
   };
 
+  // Keep uppercase text boxes in capitals as the user types
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    return watchUppercaseText(fabricCanvas);
+  }, [fabricCanvas]);
+
+  // Refit auto-fit text while editing and outline each fit box
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    return watchAutoFitText(fabricCanvas, { showBoxes: true });
+  }, [fabricCanvas]);
+
+  // Turn auto-fit on or off for the selected text, or change its range and box height
+  const handleAutoFitChange = (autoFit: TextAutoFit | null) => {
+    if (!fabricCanvas || !(selectedObject instanceof Textbox)) return;
+    const textbox: FittedTextbox = selectedObject;
+    const before = { autoFit: textbox.autoFit ?? null, fontSize: textbox.fontSize };
+    textbox.set({ autoFit });
+    fitTextToBox(textbox);
+    const after = { autoFit, fontSize: textbox.fontSize };
+    fabricCanvas.requestRenderAll();
+    setElements([...fabricCanvas.getObjects()]);
+    history.push(createPropertyCommand(fabricCanvas, textbox, before, after, 'Auto-fit text'));
+  };
+
+  // Number inputs for the auto-fit range; keeps min <= max
+  const updateAutoFit = (field: keyof TextAutoFit, value: string) => {
+    const current: TextAutoFit | null | undefined = selectedObject?.autoFit;
+    const number = Number(value);
+    if (!current || !Number.isFinite(number) || number <= 0) return;
+    const next = { ...current, [field]: number };
+    if (field === 'minFontSize' && next.maxFontSize < number) next.maxFontSize = number;
+    if (field === 'maxFontSize' && next.minFontSize > number) next.minFontSize = number;
+    handleAutoFitChange(next);
+  };
+
   // DnD reorder handler
   const handleDragEnd = (event: any) => {
     const { active, over } = event;
@@ -465,10 +812,12 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       
       // Reorder objects on canvas
       if (fabricCanvas) {
+        const before = [...fabricCanvas.getObjects()];
         newElements.forEach((obj) => {
           fabricCanvas.bringObjectToFront(obj);
         });
         fabricCanvas.renderAll();
+        history.push(createReorderCommand(fabricCanvas, before, [...fabricCanvas.getObjects()]));
       }
     }
   };
@@ -493,9 +842,11 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       fontFamily: "Arial",
       width: 200,
     });
+    scaleNewObject(text, canvasSize);
     
     fabricCanvas.add(text);
     fabricCanvas.setActiveObject(text);
+    pushPresenceCommand(text, 'Add text', true);
   };
 
   const addRectangle = () => {
@@ -510,9 +861,11 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       stroke: "#000000",
       strokeWidth: 2,
     });
+    scaleNewObject(rect, canvasSize);
     
     fabricCanvas.add(rect);
     fabricCanvas.setActiveObject(rect);
+    pushPresenceCommand(rect, 'Add rectangle', true);
   };
 
   const addCircle = () => {
@@ -526,9 +879,31 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       stroke: "#000000",
       strokeWidth: 2,
     });
+    scaleNewObject(circle, canvasSize);
     
     fabricCanvas.add(circle);
     fabricCanvas.setActiveObject(circle);
+    pushPresenceCommand(circle, 'Add circle', true);
+  };
+
+  const addSlot = () => {
+    if (!fabricCanvas) return;
+
+    const slotCount = fabricCanvas.getObjects().filter(isSlotPlaceholder).length;
+    const slot = new SlotPlaceholder({
+      left: 80,
+      top: 80,
+      width: 200,
+      height: 200,
+      slotName: `Photo ${slotCount + 1}`,
+      aspectRatio: 1,
+      fit: 'cover',
+    });
+    scaleNewObject(slot, canvasSize);
+
+    fabricCanvas.add(slot);
+    fabricCanvas.setActiveObject(slot);
+    pushPresenceCommand(slot, 'Add photo slot', true);
   };
 
   // Check if canvas has video elements
@@ -585,28 +960,9 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
               if (ctx) {
                 ctx.drawImage(obj.videoElement, 0, 0);
                 
-                // Update the fabric image with new frame
-                FabricImage.fromURL(videoCanvas.toDataURL()).then((newImg: any) => {
-                  const oldProps = {
-                    left: obj.left,
-                    top: obj.top,
-                    scaleX: obj.scaleX,
-                    scaleY: obj.scaleY,
-                    angle: obj.angle
-                  };
-                  
-                  fabricCanvas.remove(obj);
-                  newImg.set(oldProps);
-                  newImg.videoId = obj.videoId;
-                  newImg.originalFileName = obj.originalFileName;
-                  newImg.isVideo = true;
-                  newImg.videoDuration = obj.videoDuration;
-                  newImg.videoUrl = obj.videoUrl;
-                  newImg.videoElement = obj.videoElement;
-                  
-                  fabricCanvas.add(newImg);
-                  fabricCanvas.renderAll();
-                });
+                // Swap the frame in place so the object keeps its layer and undo history
+                obj.setElement(videoCanvas);
+                fabricCanvas.renderAll();
               }
             }
           });
@@ -625,32 +981,30 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
   };
 
   // Download meme - image if no video elements, video if video elements exist
-  const downloadMeme = () => {
+  const downloadMeme = async () => {
     if (!fabricCanvas) return;
 
     const hasVideos = hasVideoElements();
     
     if (hasVideos) {
-      // For canvases with video elements, download as video
-      toast.info("Video download will be implemented with video rendering");
+      // For canvases with video elements, render every frame at the output resolution
+      if (isPlaying) {
+        toast.error("Pause the video preview before downloading");
+        return;
+      }
+      await startExport(fabricCanvas, {
+        width: canvasSize.width,
+        height: canvasSize.height,
+        duration: maxDuration,
+        fileName: `meme-${Date.now()}`,
+      });
       return;
     }
 
     // For canvases without video elements, download as image
     try {
-      const originalDimensions = getOriginalDimensions();
-      const currentDimensions = getCanvasDimensions();
-      
-      // Calculate scale factors for original size download
-      const scaleX = originalDimensions.width / currentDimensions.width;
-      const scaleY = originalDimensions.height / currentDimensions.height;
-      
-      // Create high-resolution download
-      const dataURL = fabricCanvas.toDataURL({
-        format: 'png',
-        quality: 1,
-        multiplier: Math.max(scaleX, scaleY) * 2 // Scale up to original size + higher resolution
-      });
+      // Render at the template's exact output resolution, whatever the on-screen size
+      const dataURL = renderAtOutputSize(fabricCanvas, canvasSize).toDataURL('image/png');
 
       const link = document.createElement('a');
       link.download = `meme-${Date.now()}.png`;
@@ -666,38 +1020,97 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
     }
   };
 
-  const handleAdminLogin = async () => {
-    if (!adminUsername || !adminPassword) {
-      toast.error("Please enter username and password");
-      return;
+  // Layout of the canvas with each object's full transform; pending uploads take their URLs from `urlMaps`
+  const buildLayoutDefinition = (urlMaps: AssetUrlMaps = {}) => {
+    const elements = fabricCanvas
+      .getObjects()
+      .map((obj, index) => serializeCanvasObject(obj, index, urlMaps))
+      .filter(Boolean);
+
+    return parseLayoutDefinition({
+      schemaVersion: LAYOUT_SCHEMA_VERSION,
+      canvas: {
+        width: canvasSize.width,
+        height: canvasSize.height,
+        backgroundColor: typeof fabricCanvas.backgroundColor === 'string' ? fabricCanvas.backgroundColor : getCanvasBackgroundColor(),
+        backgroundImage: storedLayout?.canvas.backgroundImage ?? null
+      },
+      elements,
+      maxDuration: templateType === 'video' ? maxDuration : undefined
+    });
+  };
+
+  // Resolves to the thumbnail's public URL, or null after reporting the failure
+  const uploadThumbnail = async (thumbnail: Blob, name: string) => {
+    const thumbnailFileName = generateFileName(`${name}-thumbnail.png`, 'thumbnails');
+    const thumbnailPath = `thumbnails/${thumbnailFileName}`;
+
+    const { error: thumbnailUploadError } = await supabase.storage
+      .from('template-assets')
+      .upload(thumbnailPath, thumbnail);
+
+    if (thumbnailUploadError) {
+      console.error('Thumbnail upload error:', thumbnailUploadError);
+      toast.error("Failed to upload thumbnail");
+      return null;
+    }
+
+    return supabase.storage.from('template-assets').getPublicUrl(thumbnailPath).data.publicUrl;
+  };
+
+  // Adds a copy of the template at another size, placing elements by their resize rules
+  const createResizedTemplate = async ({ size, name, type, tags }: ResizedTemplateCopy) => {
+    if (!fabricCanvas) return false;
+    if (!isAdmin) {
+      toast.error("Only admins can create templates");
+      return false;
+    }
+    if (Object.keys(pendingImageUploads).length > 0 || Object.keys(pendingVideoUploads).length > 0) {
+      toast.error("Save the template first so the copy can share its uploaded files");
+      return false;
+    }
+
+    const layout = buildLayoutDefinition();
+    if (layout.success === false) {
+      console.error('Invalid layout definition:', layout.errors);
+      toast.error("Template layout is invalid", {
+        description: formatLayoutErrors(layout.errors),
+      });
+      return false;
     }
 
     try {
-      setAdminLoading(true);
-      const { data, error } = await supabase
-        .from('admin_credentials')
-        .select('*')
-        .eq('username', adminUsername)
-        .single();
-
-      if (error || !data) {
-        toast.error("Invalid credentials");
-        return;
-      }
+      setResizing(true);
+      const resized = resizeLayout(layout.data, size);
+      const thumbnailUrl = await uploadThumbnail(await renderLayoutThumbnail(resized), name);
+      if (!thumbnailUrl) return false;
+
+      const { error } = await supabase
+        .from('templates')
+        .insert({
+          name,
+          type,
+          layout_definition: resized,
+          thumbnail_url: thumbnailUrl,
+          tags,
+          source_template_id: template?.id ?? null,
+        });
 
-      // Simple password check (in production, use proper password hashing)
-      if (adminPassword === 'admin123') {
-        toast.success("Admin access granted!");
-        setShowAdminModal(false);
-        await saveTemplate();
-      } else {
-        toast.error("Invalid credentials");
+      if (error) {
+        console.error('Error saving template:', error);
+        toast.error("Failed to create resized template");
+        return false;
       }
+
+      toast.success(`Created "${name}"`);
+      onSaved?.();
+      return true;
     } catch (error) {
-      toast.error("Authentication failed");
-      console.error('Auth error:', error);
+      toast.error("Failed to create resized template");
+      console.error('Error:', error);
+      return false;
     } finally {
-      setAdminLoading(false);
+      setResizing(false);
     }
   };
 
@@ -737,104 +1150,57 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
         }
       }
 
-      // Create thumbnail
-      const thumbnailDataUrl = fabricCanvas.toDataURL({
-        format: 'png',
-        quality: 0.8,
-        multiplier: 0.3
-      });
-
-      const thumbnailBlob = dataURLtoBlob(thumbnailDataUrl);
-      const thumbnailFileName = generateFileName(`${templateName}-thumbnail.png`, 'thumbnails');
-      const thumbnailPath = `thumbnails/${thumbnailFileName}`;
-      
-      const { data: thumbnailUploadData, error: thumbnailUploadError } = await supabase.storage
-        .from('template-assets')
-        .upload(thumbnailPath, thumbnailBlob);
-
-      if (thumbnailUploadError) {
-        console.error('Thumbnail upload error:', thumbnailUploadError);
-        toast.error("Failed to upload thumbnail");
+      // Refuse to store a layout the editor would not be able to load
+      const validation = buildLayoutDefinition({ imageUrls: imageUrlMapping, videoUrls: videoUrlMapping });
+      if (validation.success === false) {
+        console.error('Invalid layout definition:', validation.errors);
+        toast.error("Template layout is invalid", {
+          description: formatLayoutErrors(validation.errors),
+        });
         return;
       }
 
-      // Get public URL for thumbnail
-      const { data: { publicUrl: thumbnailUrl } } = supabase.storage
-        .from('template-assets')
-        .getPublicUrl(thumbnailPath);
-
-      // Prepare layout definition with current canvas dimensions
-      const canvasObjects = fabricCanvas.getObjects();
-      const elements = canvasObjects.map((obj, index) => {
-        const actualDimensions = getActualObjectDimensions(obj);
-        
-        const element: any = {
-          id: `element_${index + 1}`,
-          type: obj.type,
-          x: actualDimensions.x,
-          y: actualDimensions.y,
-          width: actualDimensions.width,
-          height: actualDimensions.height,
-        };
-
-        if (obj.type === 'textbox') {
-          element.text = (obj as any).text || '';
-          element.fontSize = (obj as any).fontSize || 16;
-          element.fontFamily = (obj as any).fontFamily || 'Arial';
-          element.color = (obj as any).fill || '#000000';
-        } else if (obj.type === 'image') {
-          const imageId = (obj as any).imageId;
-          const videoId = (obj as any).videoId;
-          
-          if ((obj as any).isVideo) {
-            // Handle video elements stored as images
-            element.type = 'video';
-            element.videoUrl = videoUrlMapping[videoId] || (obj as any).videoUrl;
-            element.duration = (obj as any).videoDuration;
-            element.originalFileName = (obj as any).originalFileName;
-          } else {
-            // Handle regular images
-            element.imageUrl = imageUrlMapping[imageId] || '';
-          }
-          
-          element.originalWidth = (obj as any).width || actualDimensions.width;
-          element.originalHeight = (obj as any).height || actualDimensions.height;
-        } else if (obj.type === 'rect') {
-          element.fill = (obj as any).fill || '#ffffff';
-          element.strokeColor = (obj as any).stroke || '#000000';
-          element.strokeWidth = (obj as any).strokeWidth || 1;
-        } else if (obj.type === 'circle') {
-          element.fill = (obj as any).fill || '#ffffff';
-          element.strokeColor = (obj as any).stroke || '#000000';
-          element.strokeWidth = (obj as any).strokeWidth || 1;
-          element.radius = (obj as any).radius || 50;
-          element.width = element.radius * 2;
-          element.height = element.radius * 2;
+      // Create thumbnail
+      const thumbnailUrl = await uploadThumbnail(await renderCanvasThumbnail(fabricCanvas, canvasSize), templateName);
+      if (!thumbnailUrl) return;
+
+      if (template) {
+        // Update in place; the updated_at trigger bumps the timestamp
+        const { error } = await supabase
+          .from('templates')
+          .update({
+            name: templateName,
+            layout_definition: validation.data,
+            thumbnail_url: thumbnailUrl,
+          })
+          .eq('id', template.id);
+
+        if (error) {
+          console.error('Error updating template:', error);
+          toast.error("Failed to update template");
+          return;
         }
 
-        return element;
-      });
+        // The previous thumbnail is no longer referenced
+        const oldThumbnailPath = getTemplateAssetPath(template.thumbnail_url);
+        if (oldThumbnailPath) {
+          const { error: removeError } = await supabase.storage
+            .from('template-assets')
+            .remove([oldThumbnailPath]);
+          if (removeError) console.error('Error removing old thumbnail:', removeError);
+        }
 
-      // Video elements are now saved with other elements above
-
-      // FIXED: Save with current canvas dimensions (smaller video canvas)
-      const canvasDimensions = getCanvasDimensions();
-      const layoutDefinition = {
-        canvas: {
-          width: canvasDimensions.width, // Save with display dimensions
-          height: canvasDimensions.height,
-          backgroundColor: typeof fabricCanvas.backgroundColor === 'string' ? fabricCanvas.backgroundColor : getCanvasBackgroundColor(),
-          backgroundImage: null
-        },
-        elements: elements,
-        maxDuration: templateType === 'video' ? maxDuration : undefined
-      };
+        toast.success("Template updated successfully!");
+        onSaved?.();
+        onClose();
+        return;
+      }
 
       // Save template to database
       const templateData = {
         name: templateName,
         type: templateType,
-        layout_definition: layoutDefinition,
+        layout_definition: validation.data,
         thumbnail_url: thumbnailUrl,
         tags: ['user-created']
       };
@@ -850,11 +1216,10 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       }
 
       toast.success("Template saved successfully!");
+      onSaved?.();
       
       // Reset form
       setTemplateName("");
-      setAdminUsername("");
-      setAdminPassword("");
       setPendingImageUploads({});
       setPendingVideoUploads({});
       setMaxDuration(0);
@@ -872,10 +1237,14 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
       toast.error("Please provide template name");
       return;
     }
-    setShowAdminModal(true);
+    // Only ask for credentials when there is no admin session yet
+    if (isAdmin) {
+      saveTemplate();
+    } else {
+      setShowAdminModal(true);
+    }
   };
 
-  const displayDimensions = getCanvasDimensions(); // Now same as canvas dimensions
 
   return (
     <>
@@ -883,10 +1252,27 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
         <div className="bg-card rounded-xl border border-border w-full max-w-6xl h-[90vh] flex flex-col">
           {/* Header */}
           <div className="flex items-center justify-between p-6 border-b border-border">
-            <h2 className="text-xl font-bold">Create Template</h2>
-            <Button variant="ghost" size="sm" onClick={onClose}>
-              <X className="w-4 h-4" />
-            </Button>
+            <h2 className="text-xl font-bold">{template ? `Edit Template: ${template.name}` : "Create Template"}</h2>
+            <div className="flex items-center gap-2">
+              {template && (
+                <Button variant="ghost" size="sm" onClick={() => setShowResize(true)} title="Resize to…">
+                  <Scaling className="w-4 h-4" />
+                </Button>
+              )}
+              <GuidesMenu settings={guides.settings} onChange={guides.update} variant="ghost" size="sm" />
+              <Button variant="ghost" size="sm" onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (?)">
+                <Keyboard className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+                <Redo2 className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
           </div>
 
           <div className="flex flex-1 overflow-hidden">
@@ -896,12 +1282,14 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                 {/* Selected Element Toolbar - Moved to top */}
                 {selectedObject && (
                   <div className="bg-card p-4 rounded-xl border border-border">
-                    <h3 className="text-sm font-semibold mb-3">Selected Element</h3>
+                    <h3 className="text-sm font-semibold mb-3">
+                      {isMultiSelection ? `${selectedObjects.length} Elements Selected` : "Selected Element"}
+                    </h3>
                     <div className="flex items-center gap-2 mb-3">
                       <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete">
                         <Trash2 className="w-4 h-4 text-destructive" />
                       </Button>
-                      {(selectedObject.type === "textbox" || selectedObject.type === "rect" || selectedObject.type === "circle") && (
+                      {colorTargets.length > 0 && (
                         <div className="flex items-center gap-2">
                           <span className="text-xs">Color</span>
                           <button
@@ -918,7 +1306,26 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                         </div>
                       )}
                     </div>
-                    {selectedObject.type === "textbox" && (
+                    {fabricCanvas && (
+                      <div className="mb-3 space-y-4">
+                        <ArrangePanel
+                          canvas={fabricCanvas}
+                          objects={selectedObjects}
+                          canGroup={canGroup}
+                          canUngroup={canUngroup}
+                          onGroup={handleGroup}
+                          onUngroup={handleUngroup}
+                          onCommand={history.push}
+                        />
+                        <ObjectInspector
+                          canvas={fabricCanvas}
+                          target={selectedObject}
+                          objects={selectedObjects}
+                          onCommand={history.push}
+                        />
+                      </div>
+                    )}
+                    {fontTargets.length > 0 && (
                       <div>
                         <Label className="text-xs">Font</Label>
                         <Select value={font} onValueChange={handleFontChange}>
@@ -931,6 +1338,163 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                             ))}
                           </SelectContent>
                         </Select>
+                        {selectedObject.type === "textbox" && (
+                          <>
+                            {fabricCanvas && (
+                              <div className="mt-4 mb-4">
+                                <TextInspector canvas={fabricCanvas} textbox={selectedObject} onCommand={handleTextStyleCommand} />
+                              </div>
+                            )}
+                            <div className="space-y-2 mb-4">
+                              <div className="flex items-center justify-between">
+                                <Label className="text-xs">Auto-fit to Box</Label>
+                                <Switch
+                                  checked={!!selectedObject.autoFit}
+                                  onCheckedChange={(checked) => handleAutoFitChange(checked
+                                    ? { ...DEFAULT_AUTO_FIT_RANGE, boxHeight: Math.round(selectedObject.height) }
+                                    : null)}
+                                />
+                              </div>
+                              {selectedObject.autoFit && (
+                                <div className="grid grid-cols-3 gap-2">
+                                  <div>
+                                    <Label className="text-xs text-muted-foreground">Min size</Label>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      value={selectedObject.autoFit.minFontSize}
+                                      onChange={(e) => updateAutoFit('minFontSize', e.target.value)}
+                                      className="h-8 text-xs mt-1"
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs text-muted-foreground">Max size</Label>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      value={selectedObject.autoFit.maxFontSize}
+                                      onChange={(e) => updateAutoFit('maxFontSize', e.target.value)}
+                                      className="h-8 text-xs mt-1"
+                                    />
+                                  </div>
+                                  <div>
+                                    <Label className="text-xs text-muted-foreground">Box height</Label>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      value={selectedObject.autoFit.boxHeight}
+                                      onChange={(e) => updateAutoFit('boxHeight', e.target.value)}
+                                      className="h-8 text-xs mt-1"
+                                    />
+                                  </div>
+                                </div>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {!isMultiSelection && (
+                      <div className="space-y-2 mb-3">
+                        <Label className="text-xs">User Permissions</Label>
+                        {PERMISSION_OPTIONS.filter((option) => !option.textboxOnly || selectedObject.type === "textbox").map((option) => (
+                          <div key={option.key} className="flex items-start gap-2">
+                            <Checkbox
+                              id={`permission-${option.key}`}
+                              checked={!!selectedObject.permissions?.[option.key]}
+                              onCheckedChange={(checked) => handlePermissionChange(option.key, checked === true)}
+                            />
+                            <label htmlFor={`permission-${option.key}`} className="text-xs leading-tight cursor-pointer">
+                              {option.label}
+                              <span className="block text-muted-foreground">{option.description}</span>
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {!isMultiSelection && (
+                      <div className="space-y-2 mb-3">
+                        <Label className="text-xs">Resize Rules</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <span className="text-xs text-muted-foreground">Horizontal</span>
+                            <Select
+                              value={selectedObject.constraints?.horizontal ?? RELATIVE_CONSTRAINT}
+                              onValueChange={(value) => handleConstraintChange('horizontal', value)}
+                            >
+                              <SelectTrigger className="h-8 text-xs mt-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={RELATIVE_CONSTRAINT}>Keep relative</SelectItem>
+                                {HORIZONTAL_CONSTRAINT_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <span className="text-xs text-muted-foreground">Vertical</span>
+                            <Select
+                              value={selectedObject.constraints?.vertical ?? RELATIVE_CONSTRAINT}
+                              onValueChange={(value) => handleConstraintChange('vertical', value)}
+                            >
+                              <SelectTrigger className="h-8 text-xs mt-1">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={RELATIVE_CONSTRAINT}>Keep relative</SelectItem>
+                                {VERTICAL_CONSTRAINT_OPTIONS.map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    {slotSettings && (
+                      <div className="space-y-3">
+                        <div>
+                          <Label className="text-xs">Slot Name</Label>
+                          <Input
+                            value={slotSettings.slotName}
+                            onChange={(e) => handleSlotChange({ slotName: e.target.value })}
+                            placeholder="e.g. Face"
+                            className="h-8 text-xs mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Aspect Ratio</Label>
+                          <Select
+                            value={SLOT_ASPECT_RATIOS.find((option) => option.value === slotSettings.aspectRatio)?.label ?? 'Free'}
+                            onValueChange={(label) => handleSlotChange({
+                              aspectRatio: SLOT_ASPECT_RATIOS.find((option) => option.label === label)?.value ?? null,
+                            })}
+                          >
+                            <SelectTrigger className="w-full h-8 text-xs mt-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SLOT_ASPECT_RATIOS.map((option) => (
+                                <SelectItem key={option.label} value={option.label}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label className="text-xs">Photo Fit</Label>
+                          <Select value={slotSettings.fit} onValueChange={(fit: SlotFit) => handleSlotChange({ fit })}>
+                            <SelectTrigger className="w-full h-8 text-xs mt-1">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {SLOT_FIT_OPTIONS.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
                     )}
                   </div>
@@ -953,16 +1517,37 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
 
                     <div>
                       <Label htmlFor="template-type">Template Type</Label>
-                      <Select value={templateType} onValueChange={(value: 'photo' | 'video') => setTemplateType(value)}>
+                      <Select
+                        value={templateType}
+                        onValueChange={(value: 'photo' | 'video') => {
+                          setTemplateType(value);
+                          setCanvasSize(getDefaultOutputSize(value));
+                        }}
+                        disabled={!!template}
+                      >
                         <SelectTrigger className="mt-1">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="photo">Photo (1:1 ratio)</SelectItem>
-                          <SelectItem value="video">Video (9:16 ratio)</SelectItem>
+                          <SelectItem value="photo">Photo</SelectItem>
+                          <SelectItem value="video">Video</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div>
+                      <Label>Canvas Size</Label>
+                      {/* Resizing in place would bypass undo, so existing templates get a resized copy instead */}
+                      <CanvasSizePicker value={canvasSize} onChange={setCanvasSize} disabled={!!template} />
+                      {template && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                          To change the size, use{" "}
+                          <button type="button" onClick={() => setShowResize(true)} className="text-primary underline">
+                            Resize to…
+                          </button>
+                        </p>
+                      )}
+                    </div>
                   </div>
                 </div>
 
@@ -985,6 +1570,10 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                       <Circle className="w-4 h-4 mr-2" />
                       Add Circle
                     </Button>
+                    <Button onClick={addSlot} variant="outline" size="sm" className="w-full justify-start">
+                      <ImagePlus className="w-4 h-4 mr-2" />
+                      Add Photo Slot
+                    </Button>
                   </div>
                 </div>
 
@@ -1095,7 +1684,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                             key={obj.__uid || `element-${index}`}
                             id={obj.__uid}
                             obj={obj}
-                            isActive={selectedObject === obj}
+                            isActive={selectedObjects.includes(obj)}
                             onSelect={(o: any) => {
                               if (fabricCanvas) {
                                 fabricCanvas.setActiveObject(o);
@@ -1115,7 +1704,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                   <div className="space-y-3">
                     <Button
                       onClick={downloadMeme}
-                      disabled={!fabricCanvas}
+                      disabled={!fabricCanvas || isExporting}
                       variant="outline"
                       className="w-full"
                     >
@@ -1124,7 +1713,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                     </Button>
                     <Button
                       onClick={handleSaveTemplate}
-                      disabled={loading || !templateName}
+                      disabled={loading || layoutLoading || !templateName}
                       className="w-full btn-gradient text-primary-foreground"
                     >
                       {loading ? (
@@ -1132,7 +1721,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                       ) : (
                         <>
                           <Save className="w-4 h-4 mr-2" />
-                          Save Template
+                          {template ? "Update Template" : "Save Template"}
                         </>
                       )}
                     </Button>
@@ -1141,15 +1730,25 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
               </div>
             </div>
             
-            {/* Canvas container - now matches canvas dimensions exactly */}
-            <div className="flex-1 flex items-center justify-center p-6 bg-muted/30">
+            {/* Canvas container; the canvas is zoomed to fit it */}
+            <div ref={canvasContainerRef} className="flex-1 min-w-0 flex items-center justify-center p-6 bg-muted/30">
+              <div className="relative">
                 <canvas 
                   ref={canvasRef} 
                   style={{
-                    width: `${displayDimensions.width}px`,
-                    height: `${displayDimensions.height}px`,
+                    width: `${viewport.display.width}px`,
+                    height: `${viewport.display.height}px`,
                   }}
                 />
+                {guides.settings.showRulers && (
+                  <CanvasRulers width={viewport.display.width} height={viewport.display.height} zoom={viewport.zoom} />
+                )}
+                {layoutLoading && (
+                  <div className="absolute inset-0 bg-white/80 flex items-center justify-center">
+                    <div className="text-sm text-muted-foreground">Loading template...</div>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -1167,7 +1766,7 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
                 <Lock className="w-8 h-8 text-primary" />
               </div>
               <p className="text-sm text-muted-foreground">
-                Enter admin credentials to save template to database
+                Sign in with your admin account to save the template to the database
               </p>
               {(Object.keys(pendingImageUploads).length > 0 || Object.keys(pendingVideoUploads).length > 0) && (
                 <div className="text-xs text-yellow-600 mt-2 space-y-1">
@@ -1181,59 +1780,36 @@ export const TemplateCreator = ({ onClose }: TemplateCreatorProps) => {
               )}
             </div>
 
-            <div>
-              <Label htmlFor="admin-username">Username</Label>
-              <div className="relative mt-1">
-                <User className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="admin-username"
-                  type="text"
-                  value={adminUsername}
-                  onChange={(e) => setAdminUsername(e.target.value)}
-                  placeholder="Enter username"
-                  className="pl-10"
-                />
-              </div>
-            </div>
-
-            <div>
-              <Label htmlFor="admin-password">Password</Label>
-              <div className="relative mt-1">
-                <Lock className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="admin-password"
-                  type="password"
-                  value={adminPassword}
-                  onChange={(e) => setAdminPassword(e.target.value)}
-                  placeholder="Enter password"
-                  className="pl-10"
-                />
-              </div>
-            </div>
-
-            <div className="flex gap-2 pt-4">
-              <Button
-                variant="outline"
-                onClick={() => setShowAdminModal(false)}
-                className="flex-1"
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={handleAdminLogin}
-                disabled={adminLoading}
-                className="flex-1 btn-gradient text-primary-foreground"
-              >
-                {adminLoading ? "Authenticating..." : "Save Template"}
-              </Button>
-            </div>
-
-            <div className="text-xs text-muted-foreground text-center">
-              Default credentials: admin / admin123
-            </div>
+            <AdminLoginForm
+              submitLabel={template ? "Update Template" : "Save Template"}
+              onCancel={() => setShowAdminModal(false)}
+              onSuccess={() => {
+                setShowAdminModal(false);
+                saveTemplate();
+              }}
+            />
           </div>
         </DialogContent>
       </Dialog>
+
+      <VideoExportDialog
+        open={isExporting}
+        progress={exportProgress}
+        duration={maxDuration}
+        onCancel={cancelExport}
+      />
+
+      <ShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
+      <ResizeTemplateDialog
+        open={showResize}
+        onOpenChange={setShowResize}
+        currentSize={canvasSize}
+        templateName={templateName}
+        templateType={templateType}
+        templateTags={template?.tags ?? []}
+        creating={resizing}
+        onCreate={createResizedTemplate}
+      />
     </>
   );
 };
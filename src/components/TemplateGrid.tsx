@@ -1,57 +1,232 @@
-import { useEffect, useState } from "react";
-import { Edit3, Play } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import { Edit3, PencilRuler, Play, Search, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { supabase } from "@/integrations/supabase/client";
-import { Template } from "./Dashboard";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TemplateSummary } from "./Dashboard";
+import { useAuth } from "@/hooks/use-auth";
+import { useTemplatePages, useTemplateTags } from "@/hooks/use-templates";
+import { isTemplateSort, TEMPLATE_SORT_OPTIONS, TemplateSort } from "@/lib/templateSearch";
 import { toast } from "sonner";
 
 interface TemplateGridProps {
   type: 'photo' | 'video';
-  onEditTemplate: (template: Template) => void;
+  onEditTemplate: (template: TemplateSummary) => void;
+  /** Opens the template itself in the creator; only offered to admins */
+  onEditLayout?: (template: TemplateSummary) => void;
 }
 
-export const TemplateGrid = ({ type, onEditTemplate }: TemplateGridProps) => {
-  const [templates, setTemplates] = useState<Template[]>([]);
-  const [loading, setLoading] = useState(true);
+// Mirrors the md/lg/xl column breakpoints the grid used before it was virtualised
+const getColumnCount = () => {
+  const width = window.innerWidth;
+  if (width >= 1280) return 4;
+  if (width >= 1024) return 3;
+  if (width >= 768) return 2;
+  return 1;
+};
 
+const useColumnCount = () => {
+  const [columns, setColumns] = useState(getColumnCount);
+
+  useEffect(() => {
+    const onResize = () => setColumns(getColumnCount());
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  return columns;
+};
+
+// Card height plus the row gap, refined by measureElement once rows render
+const ESTIMATED_ROW_HEIGHT = 340;
+
+export const TemplateGrid = ({ type, onEditTemplate, onEditLayout }: TemplateGridProps) => {
+  const { isAdmin } = useAuth();
+  const columns = useColumnCount();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Filters live in the URL (?q=&tags=a,b&sort=) so they survive reloads and can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+  const tagsParam = searchParams.get('tags') ?? '';
+  const selectedTags = tagsParam ? tagsParam.split(',') : [];
+  const sortParam = searchParams.get('sort');
+  const sort: TemplateSort = isTemplateSort(sortParam) ? sortParam : 'newest';
+  const [searchInput, setSearchInput] = useState(query);
+  const hasFilters = !!query || selectedTags.length > 0;
+
+  const updateParams = useCallback((updates: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Pick up changes from back/forward navigation
+  useEffect(() => {
+    setSearchInput(query);
+  }, [query]);
+
+  // Debounce typing before it hits the URL and the database
   useEffect(() => {
-    fetchTemplates();
-  }, [type]);
-
-  const fetchTemplates = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('templates')
-        .select('*')
-        .eq('type', type)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        toast.error('Failed to fetch templates');
-        console.error('Error:', error);
-        return;
-      }
-
-      setTemplates(data as Template[] || []);
-    } catch (error) {
+    if (searchInput === query) return;
+    const timeout = setTimeout(() => updateParams({ q: searchInput.trim() }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, query, updateParams]);
+
+  const {
+    data,
+    error,
+    isLoading: loading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useTemplatePages({ type, query, tags: selectedTags, sort });
+  // Tag chips come from every template of this type, not just the filtered ones
+  const { data: availableTags = [] } = useTemplateTags(type);
+  const templates = data?.pages.flat() ?? [];
+
+  useEffect(() => {
+    if (error) {
       toast.error('Failed to fetch templates');
       console.error('Error:', error);
-    } finally {
-      setLoading(false);
     }
+  }, [error]);
+
+  const rowCount = Math.ceil(templates.length / columns);
+  const virtualizer = useWindowVirtualizer({
+    count: rowCount,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 2,
+    scrollMargin: listRef.current?.offsetTop ?? 0,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastRowIndex = virtualRows[virtualRows.length - 1]?.index;
+
+  // Load the next page once the last loaded row scrolls into view
+  useEffect(() => {
+    if (lastRowIndex === undefined) return;
+    if (lastRowIndex >= rowCount - 1 && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [lastRowIndex, rowCount, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const toggleTag = (tag: string) => {
+    const nextTags = selectedTags.includes(tag)
+      ? selectedTags.filter((selected) => selected !== tag)
+      : [...selectedTags, tag];
+    updateParams({ tags: nextTags.join(',') });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    updateParams({ q: '', tags: '' });
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-96">
-        <div className="text-center">
-          <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading templates...</p>
+  const renderCard = (template: TemplateSummary) => (
+    <div key={template.id} className="template-card p-4">
+      <div className="relative group">
+        {/* Contained rather than cropped, so each template shows its real aspect ratio */}
+        <img
+          src={template.thumbnail_url || '/placeholder.svg'}
+          alt={template.name}
+          className="w-full h-48 object-contain bg-muted rounded-lg mb-3"
+        />
+        {type === 'video' && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Play className="w-12 h-12 text-primary opacity-70" />
+          </div>
+        )}
+        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
+          <Button
+            onClick={() => onEditTemplate(template)}
+            size="sm"
+            className="btn-gradient text-primary-foreground"
+          >
+            <Edit3 className="w-4 h-4 mr-2" />
+            Edit
+          </Button>
         </div>
       </div>
-    );
-  }
+      <h3 className="font-semibold text-sm mb-2">{template.name}</h3>
+      <Button
+        onClick={() => onEditTemplate(template)}
+        variant="outline"
+        size="sm"
+        className="w-full"
+      >
+        <Edit3 className="w-4 h-4 mr-2" />
+        Edit Template
+      </Button>
+      {isAdmin && onEditLayout && (
+        <Button
+          onClick={() => onEditLayout(template)}
+          variant="ghost"
+          size="sm"
+          className="w-full mt-2"
+        >
+          <PencilRuler className="w-4 h-4 mr-2" />
+          Edit Layout
+        </Button>
+      )}
+    </div>
+  );
+
+  const filters = (
+    <div className="mb-6 space-y-3">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name or tag"
+            className="pl-10"
+          />
+        </div>
+        <Select value={sort} onValueChange={(value: TemplateSort) => updateParams({ sort: value === 'newest' ? '' : value })}>
+          <SelectTrigger className="sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TEMPLATE_SORT_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasFilters && (
+          <Button variant="ghost" onClick={clearFilters}>
+            <X className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        )}
+      </div>
+      {availableTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {availableTags.map((tag) => (
+            <Badge
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => toggleTag(tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 
   return (
     <div>
@@ -64,54 +239,59 @@ export const TemplateGrid = ({ type, onEditTemplate }: TemplateGridProps) => {
         </p>
       </div>
 
-      {templates.length === 0 ? (
+      {filters}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin w-8 h-8 border-2 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading templates...</p>
+          </div>
+        </div>
+      ) : templates.length === 0 ? (
         <div className="text-center py-12">
           <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
             {type === 'photo' ? <Edit3 className="w-8 h-8" /> : <Play className="w-8 h-8" />}
           </div>
-          <h3 className="text-lg font-semibold mb-2">No templates yet</h3>
-          <p className="text-muted-foreground">
-            No {type} templates available. Check back later!
-          </p>
+          {hasFilters ? (
+            <>
+              <h3 className="text-lg font-semibold mb-2">No matching templates</h3>
+              <p className="text-muted-foreground">
+                Try a different search or fewer tags.
+              </p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-lg font-semibold mb-2">No templates yet</h3>
+              <p className="text-muted-foreground">
+                No {type} templates available. Check back later!
+              </p>
+            </>
+          )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {templates.map((template) => (
-            <div key={template.id} className="template-card p-4">
-              <div className="relative group">
-                <img
-                  src={template.thumbnail_url || '/placeholder.svg'}
-                  alt={template.name}
-                  className="w-full h-48 object-cover rounded-lg mb-3"
-                />
-                {type === 'video' && (
-                  <div className="absolute inset-0 flex items-center justify-center">
-                    <Play className="w-12 h-12 text-primary opacity-70" />
-                  </div>
-                )}
-                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center">
-                  <Button
-                    onClick={() => onEditTemplate(template)}
-                    size="sm"
-                    className="btn-gradient text-primary-foreground"
-                  >
-                    <Edit3 className="w-4 h-4 mr-2" />
-                    Edit
-                  </Button>
-                </div>
-              </div>
-              <h3 className="font-semibold text-sm mb-2">{template.name}</h3>
-              <Button
-                onClick={() => onEditTemplate(template)}
-                variant="outline"
-                size="sm"
-                className="w-full"
+        <div ref={listRef}>
+          <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualRows.map((row) => (
+              <div
+                key={row.key}
+                data-index={row.index}
+                ref={virtualizer.measureElement}
+                className="absolute left-0 top-0 w-full grid gap-6 pb-6"
+                style={{
+                  gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                  transform: `translateY(${row.start - virtualizer.options.scrollMargin}px)`,
+                }}
               >
-                <Edit3 className="w-4 h-4 mr-2" />
-                Edit Template
-              </Button>
+                {templates.slice(row.index * columns, (row.index + 1) * columns).map(renderCard)}
+              </div>
+            ))}
+          </div>
+          {isFetchingNextPage && (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin w-6 h-6 border-2 border-primary border-t-transparent rounded-full"></div>
             </div>
-          ))}
+          )}
         </div>
       )}
     </div>
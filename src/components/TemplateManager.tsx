@@ -0,0 +1,594 @@
+import { useCallback, useEffect, useState } from "react";
+import { Copy, ImageUp, PencilRuler, Tags, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { supabase } from "@/integrations/supabase/client";
+import { formatLayoutErrors } from "@/lib/layout";
+import { loadLayoutDefinition } from "@/lib/layoutMigrations";
+import { renderLayoutThumbnail } from "@/lib/templateThumbnail";
+import { parseTags } from "@/lib/templateSearch";
+import {
+  collectTemplateAssetPaths,
+  generateAssetPath,
+  getTemplateAssetPath,
+  TEMPLATE_ASSETS_BUCKET,
+} from "@/lib/storage";
+import { Template } from "./Dashboard";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 10;
+
+type TagMode = 'add' | 'replace';
+
+interface TemplateManagerProps {
+  onEditLayout?: (template: Template) => void;
+}
+
+// Page numbers to show, with null standing in for an ellipsis
+const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  if (pageCount <= 7) return Array.from({ length: pageCount }, (_, index) => index);
+  const pages = new Set([0, page - 1, page, page + 1, pageCount - 1]);
+  const sorted = [...pages].filter((p) => p >= 0 && p < pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((p, index) => (index > 0 && p - sorted[index - 1] > 1 ? [null, p] : [p]));
+};
+
+export const TemplateManager = ({ onEditLayout }: TemplateManagerProps) => {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [showRetag, setShowRetag] = useState(false);
+  const [tagInput, setTagInput] = useState("");
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const from = page * PAGE_SIZE;
+      const { data, error, count } = await supabase
+        .from('templates')
+        .select('*', { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        toast.error('Failed to fetch templates');
+        console.error('Error:', error);
+        return;
+      }
+
+      // Step back when the last row of the final page was removed
+      if (data.length === 0 && page > 0) {
+        setPage(page - 1);
+        return;
+      }
+
+      setTemplates(data as Template[] || []);
+      setTotalCount(count ?? 0);
+    } catch (error) {
+      toast.error('Failed to fetch templates');
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchTemplates();
+    setSelectedIds(new Set());
+  }, [fetchTemplates]);
+
+  // Runs an action with the table locked, then reloads the current page
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      await action();
+    } catch (error) {
+      toast.error('Action failed');
+      console.error('Error:', error);
+    } finally {
+      setBusy(false);
+      fetchTemplates();
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const updated = new Set(prev);
+      if (checked) {
+        updated.add(id);
+      } else {
+        updated.delete(id);
+      }
+      return updated;
+    });
+  };
+
+  const allSelected = templates.length > 0 && templates.every((template) => selectedIds.has(template.id));
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(templates.map((template) => template.id)) : new Set());
+  };
+
+  // Removes storage objects no remaining template or saved meme refers to (duplicates share layout assets)
+  const removeUnreferencedAssets = async (paths: string[]) => {
+    if (paths.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('templates')
+      .select('thumbnail_url, layout_definition');
+
+    if (error) {
+      toast.error('Templates deleted, but their files could not be cleaned up');
+      console.error('Error:', error);
+      return;
+    }
+
+    const referenced = new Set(
+      collectTemplateAssetPaths(...data.flatMap((row) => [row.thumbnail_url, row.layout_definition]))
+    );
+    const candidates = paths.filter((path) => !referenced.has(path));
+    if (candidates.length === 0) return;
+
+    // Users' memes are hidden by row-level security, so the database checks them
+    const { data: usedByMemes, error: memesError } = await supabase
+      .rpc('user_meme_asset_paths', { paths: candidates });
+
+    if (memesError) {
+      toast.error('Templates deleted, but their files could not be cleaned up');
+      console.error('Error:', memesError);
+      return;
+    }
+
+    const usedPaths = new Set(usedByMemes);
+    const unreferenced = candidates.filter((path) => !usedPaths.has(path));
+    if (unreferenced.length === 0) return;
+
+    const { error: removeError } = await supabase.storage
+      .from(TEMPLATE_ASSETS_BUCKET)
+      .remove(unreferenced);
+
+    if (removeError) {
+      toast.error('Templates deleted, but their files could not be cleaned up');
+      console.error('Error:', removeError);
+    }
+  };
+
+  const deleteTemplates = (ids: string[]) => runAction(async () => {
+    const { data: doomed, error: fetchError } = await supabase
+      .from('templates')
+      .select('thumbnail_url, layout_definition')
+      .in('id', ids);
+
+    if (fetchError) {
+      toast.error('Failed to delete templates');
+      console.error('Error:', fetchError);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('templates')
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      toast.error('Failed to delete templates');
+      console.error('Error:', error);
+      return;
+    }
+
+    await removeUnreferencedAssets(
+      collectTemplateAssetPaths(...doomed.flatMap((row) => [row.thumbnail_url, row.layout_definition]))
+    );
+    setSelectedIds(new Set());
+    toast.success(`Deleted ${ids.length} template(s)`);
+  });
+
+  const renameTemplate = (template: Template, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === template.name) return;
+
+    runAction(async () => {
+      const { error } = await supabase
+        .from('templates')
+        .update({ name: trimmed })
+        .eq('id', template.id);
+
+      if (error) {
+        toast.error('Failed to rename template');
+        console.error('Error:', error);
+        return;
+      }
+      toast.success('Template renamed');
+    });
+  };
+
+  const retagSelected = (mode: TagMode) => runAction(async () => {
+    const tags = parseTags(tagInput);
+    const selected = templates.filter((template) => selectedIds.has(template.id));
+
+    const results = await Promise.all(selected.map((template) => {
+      const nextTags = mode === 'replace'
+        ? tags
+        : [...new Set([...(template.tags || []), ...tags])];
+      return supabase
+        .from('templates')
+        .update({ tags: nextTags })
+        .eq('id', template.id);
+    }));
+
+    const failed = results.filter(({ error }) => error);
+    if (failed.length > 0) {
+      toast.error(`Failed to retag ${failed.length} template(s)`);
+      failed.forEach(({ error }) => console.error('Error:', error));
+      return;
+    }
+
+    setShowRetag(false);
+    setTagInput("");
+    toast.success(`Retagged ${selected.length} template(s)`);
+  });
+
+  const duplicateTemplate = (template: Template) => runAction(async () => {
+    // Give the copy its own thumbnail so either one can regenerate or delete it independently
+    let thumbnailUrl = template.thumbnail_url ?? null;
+    const thumbnailPath = getTemplateAssetPath(template.thumbnail_url);
+    if (thumbnailPath) {
+      const copyPath = generateAssetPath('thumbnails', thumbnailPath.split('.').pop() || 'png');
+      const { error: copyError } = await supabase.storage
+        .from(TEMPLATE_ASSETS_BUCKET)
+        .copy(thumbnailPath, copyPath);
+
+      if (copyError) {
+        toast.error('Failed to copy thumbnail');
+        console.error('Error:', copyError);
+        return;
+      }
+      thumbnailUrl = supabase.storage.from(TEMPLATE_ASSETS_BUCKET).getPublicUrl(copyPath).data.publicUrl;
+    }
+
+    const { error } = await supabase
+      .from('templates')
+      .insert({
+        name: `${template.name} (copy)`,
+        type: template.type,
+        tags: template.tags,
+        thumbnail_url: thumbnailUrl,
+        layout_definition: template.layout_definition,
+      });
+
+    if (error) {
+      toast.error('Failed to duplicate template');
+      console.error('Error:', error);
+      return;
+    }
+    toast.success(`Duplicated "${template.name}"`);
+  });
+
+  const changeTemplateType = (template: Template, type: 'photo' | 'video') => {
+    if (type === template.type) return;
+
+    const layout = loadLayoutDefinition(template.layout_definition, { type: template.type });
+    if (layout.success === false) {
+      toast.error(`Template "${template.name}" has an invalid layout`, {
+        description: formatLayoutErrors(layout.errors),
+      });
+      return;
+    }
+    if (type === 'photo' && layout.data.elements.some((element) => element.type === 'video')) {
+      toast.error('Remove the video elements before turning this into a photo template');
+      return;
+    }
+
+    runAction(async () => {
+      const { error } = await supabase
+        .from('templates')
+        .update({ type })
+        .eq('id', template.id);
+
+      if (error) {
+        toast.error('Failed to change template type');
+        console.error('Error:', error);
+        return;
+      }
+      toast.success(`"${template.name}" is now a ${type} template`);
+    });
+  };
+
+  const regenerateThumbnail = (template: Template) => {
+    const layout = loadLayoutDefinition(template.layout_definition, { type: template.type });
+    if (layout.success === false) {
+      toast.error(`Template "${template.name}" has an invalid layout`, {
+        description: formatLayoutErrors(layout.errors),
+      });
+      return;
+    }
+
+    runAction(async () => {
+      const thumbnail = await renderLayoutThumbnail(layout.data);
+      const thumbnailPath = generateAssetPath('thumbnails', 'png');
+
+      const { error: uploadError } = await supabase.storage
+        .from(TEMPLATE_ASSETS_BUCKET)
+        .upload(thumbnailPath, thumbnail, { contentType: 'image/png' });
+
+      if (uploadError) {
+        toast.error('Failed to upload thumbnail');
+        console.error('Thumbnail upload error:', uploadError);
+        return;
+      }
+
+      const { data: { publicUrl } } = supabase.storage
+        .from(TEMPLATE_ASSETS_BUCKET)
+        .getPublicUrl(thumbnailPath);
+
+      const { error } = await supabase
+        .from('templates')
+        .update({ thumbnail_url: publicUrl })
+        .eq('id', template.id);
+
+      if (error) {
+        toast.error('Failed to update thumbnail');
+        console.error('Error:', error);
+        return;
+      }
+
+      const oldThumbnailPath = getTemplateAssetPath(template.thumbnail_url);
+      if (oldThumbnailPath) {
+        await removeUnreferencedAssets([oldThumbnailPath]);
+      }
+      toast.success(`Regenerated thumbnail for "${template.name}"`);
+    });
+  };
+
+  const goToPage = (nextPage: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (nextPage >= 0 && nextPage < pageCount && nextPage !== page) {
+      setPage(nextPage);
+    }
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold">Templates</h3>
+          <p className="text-xs text-muted-foreground">{totalCount} template(s)</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy || selectedIds.size === 0}
+            onClick={() => setShowRetag(true)}
+          >
+            <Tags className="w-4 h-4 mr-2" />
+            Retag ({selectedIds.size})
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy || selectedIds.size === 0}
+            onClick={() => setPendingDelete([...selectedIds])}
+            className="text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete ({selectedIds.size})
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) => toggleAll(checked === true)}
+                aria-label="Select all"
+              />
+            </TableHead>
+            <TableHead className="w-16">Preview</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead className="w-32">Type</TableHead>
+            <TableHead>Tags</TableHead>
+            <TableHead className="w-28">Updated</TableHead>
+            <TableHead className="w-40 text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {loading ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                Loading templates...
+              </TableCell>
+            </TableRow>
+          ) : templates.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground">
+                No templates yet
+              </TableCell>
+            </TableRow>
+          ) : (
+            templates.map((template) => (
+              <TableRow key={template.id} data-state={selectedIds.has(template.id) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.has(template.id)}
+                    onCheckedChange={(checked) => toggleSelected(template.id, checked === true)}
+                    aria-label={`Select ${template.name}`}
+                  />
+                </TableCell>
+                <TableCell>
+                  <img
+                    src={template.thumbnail_url || '/placeholder.svg'}
+                    alt={template.name}
+                    className="w-12 h-12 object-contain bg-muted rounded"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    key={`${template.id}-${template.updated_at}`}
+                    defaultValue={template.name}
+                    disabled={busy}
+                    onBlur={(e) => renameTemplate(template, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={template.type}
+                    disabled={busy}
+                    onValueChange={(value: 'photo' | 'video') => changeTemplateType(template, value)}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="photo">Photo</SelectItem>
+                      <SelectItem value="video">Video</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {(template.tags || []).map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {new Date(template.updated_at).toLocaleDateString()}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    {onEditLayout && (
+                      <Button variant="ghost" size="icon" disabled={busy} onClick={() => onEditLayout(template)} title="Edit layout">
+                        <PencilRuler className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon" disabled={busy} onClick={() => duplicateTemplate(template)} title="Duplicate">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={busy} onClick={() => regenerateThumbnail(template)} title="Regenerate thumbnail">
+                      <ImageUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={busy} onClick={() => setPendingDelete([template.id])} title="Delete">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious href="#" onClick={goToPage(page - 1)} />
+            </PaginationItem>
+            {getPageWindow(page, pageCount).map((pageIndex, index) => (
+              <PaginationItem key={pageIndex ?? `ellipsis-${index}`}>
+                {pageIndex === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={pageIndex === page} onClick={goToPage(pageIndex)}>
+                    {pageIndex + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext href="#" onClick={goToPage(page + 1)} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      {/* Bulk Retag Dialog */}
+      <Dialog open={showRetag} onOpenChange={setShowRetag}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Retag {selectedIds.size} template(s)</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="retag-input">Tags (comma separated)</Label>
+            <Input
+              id="retag-input"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="funny, reaction, classic"
+              className="mt-1"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" disabled={busy} onClick={() => retagSelected('add')}>
+              Add Tags
+            </Button>
+            <Button disabled={busy} onClick={() => retagSelected('replace')} className="btn-gradient text-primary-foreground">
+              Replace Tags
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.length} template(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The templates and any uploaded files no other template uses will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteTemplates(pendingDelete);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { AlertTriangle, CheckCircle2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { LayoutMigrationError, migrateLayoutDefinition } from "@/lib/layoutMigrations";
+import { toast } from "sonner";
+
+interface MigrationFailure {
+  id: string;
+  name: string;
+  errors: string[];
+}
+
+interface MigrationReport {
+  total: number;
+  migrated: string[];
+  upToDate: number;
+  warnings: { name: string; warnings: string[] }[];
+  failed: MigrationFailure[];
+}
+
+export const TemplateMigrationPanel = () => {
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<MigrationReport | null>(null);
+
+  const migrateAllTemplates = async () => {
+    try {
+      setRunning(true);
+      setReport(null);
+
+      const { data, error } = await supabase
+        .from('templates')
+        .select('id, name, type, layout_definition');
+
+      if (error) {
+        toast.error("Failed to fetch templates");
+        console.error('Error:', error);
+        return;
+      }
+
+      const nextReport: MigrationReport = {
+        total: data.length,
+        migrated: [],
+        upToDate: 0,
+        warnings: [],
+        failed: [],
+      };
+
+      for (const row of data) {
+        try {
+          const result = migrateLayoutDefinition(row.layout_definition, { type: row.type });
+          if (!result.migrated) {
+            nextReport.upToDate += 1;
+            continue;
+          }
+
+          const { error: updateError } = await supabase
+            .from('templates')
+            .update({ layout_definition: result.layout })
+            .eq('id', row.id);
+
+          if (updateError) {
+            nextReport.failed.push({ id: row.id, name: row.name, errors: [updateError.message] });
+            continue;
+          }
+
+          nextReport.migrated.push(row.name);
+          if (result.warnings.length > 0) {
+            nextReport.warnings.push({ name: row.name, warnings: result.warnings });
+          }
+        } catch (migrationError) {
+          const errors = migrationError instanceof LayoutMigrationError
+            ? migrationError.errors
+            : [String(migrationError)];
+          nextReport.failed.push({ id: row.id, name: row.name, errors });
+        }
+      }
+
+      setReport(nextReport);
+      if (nextReport.failed.length > 0) {
+        toast.error(`${nextReport.failed.length} template(s) could not be migrated`);
+      } else {
+        toast.success(`Migrated ${nextReport.migrated.length} template(s)`);
+      }
+    } catch (error) {
+      toast.error("Template migration failed");
+      console.error('Migration error:', error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-card p-4 rounded-xl border border-border space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold">Migrate Templates</h3>
+        <p className="text-xs text-muted-foreground mt-1">
+          Rewrites every template saved in an older layout format to the current element list format.
+        </p>
+      </div>
+      <Button onClick={migrateAllTemplates} disabled={running} variant="outline" className="w-full">
+        <RefreshCw className={`w-4 h-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+        {running ? "Migrating..." : "Migrate All Templates"}
+      </Button>
+
+      {report && (
+        <div className="text-xs space-y-2">
+          <p className="flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+            {report.migrated.length} migrated, {report.upToDate} already current, {report.failed.length} failed
+            (of {report.total})
+          </p>
+          {report.warnings.map(({ name, warnings }) => (
+            <div key={name} className="text-yellow-600">
+              <p className="font-medium">{name}</p>
+              {warnings.map((warning) => (
+                <p key={warning}>⚠️ {warning}</p>
+              ))}
+            </div>
+          ))}
+          {report.failed.map(({ id, name, errors }) => (
+            <div key={id} className="text-destructive">
+              <p className="font-medium flex items-center gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                {name}
+              </p>
+              {errors.map((message) => (
+                <p key={message} className="pl-4">{message}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
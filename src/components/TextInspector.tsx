@@ -0,0 +1,202 @@
+import { useReducer } from "react";
+import { AlignCenter, AlignJustify, AlignLeft, AlignRight, Bold, CaseUpper, Italic, Underline } from "lucide-react";
+import { Canvas as FabricCanvas } from "fabric";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { HistoryCommand } from "@/lib/history";
+import type { TextAlign } from "@/lib/layout";
+import {
+  applyTextStyle,
+  CLASSIC_MEME_STYLE,
+  DEFAULT_TEXT_SHADOW,
+  getTextStyle,
+  StyledTextbox,
+  TextStyle,
+} from "@/lib/textStyle";
+
+interface TextInspectorProps {
+  canvas: FabricCanvas;
+  textbox: StyledTextbox;
+  /** Receives the undo command for every change */
+  onCommand: (command: HistoryCommand) => void;
+}
+
+const ALIGN_OPTIONS: { value: TextAlign; label: string; icon: typeof AlignLeft }[] = [
+  { value: 'left', label: 'Align left', icon: AlignLeft },
+  { value: 'center', label: 'Align center', icon: AlignCenter },
+  { value: 'right', label: 'Align right', icon: AlignRight },
+  { value: 'justify', label: 'Justify', icon: AlignJustify },
+];
+
+const ColorSwatch = ({ value, onChange, label }: { value: string; onChange: (color: string) => void; label: string }) => (
+  <input
+    type="color"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    aria-label={label}
+    className="w-6 h-6 rounded border border-border cursor-pointer bg-transparent p-0"
+  />
+);
+
+/** Outline, shadow, alignment, spacing and decoration controls for a selected textbox */
+export const TextInspector = ({ canvas, textbox, onCommand }: TextInspectorProps) => {
+  // Styles live on the fabric object, so re-render after each change to read them back
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+  const style = getTextStyle(textbox);
+
+  const update = (changes: Partial<TextStyle>, label: string, extraProps?: Record<string, unknown>) => {
+    onCommand(applyTextStyle(canvas, textbox, changes, label, extraProps));
+    refresh();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={() => update(CLASSIC_MEME_STYLE.style, 'Classic meme style', {
+          fill: CLASSIC_MEME_STYLE.fill,
+          fontFamily: CLASSIC_MEME_STYLE.fontFamily,
+        })}
+      >
+        Classic Meme Style
+      </Button>
+
+      <div>
+        <Label className="text-xs">Alignment</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={style.textAlign}
+          onValueChange={(value: TextAlign) => value && update({ textAlign: value }, 'Align text')}
+          className="justify-start mt-1"
+        >
+          {ALIGN_OPTIONS.map(({ value, label, icon: Icon }) => (
+            <ToggleGroupItem key={value} value={value} aria-label={label} title={label}>
+              <Icon className="w-4 h-4" />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div>
+        <Label className="text-xs">Style</Label>
+        <div className="flex gap-1 mt-1">
+          <Toggle size="sm" pressed={style.bold} onPressedChange={(bold) => update({ bold }, 'Bold')} aria-label="Bold" title="Bold">
+            <Bold className="w-4 h-4" />
+          </Toggle>
+          <Toggle size="sm" pressed={style.italic} onPressedChange={(italic) => update({ italic }, 'Italic')} aria-label="Italic" title="Italic">
+            <Italic className="w-4 h-4" />
+          </Toggle>
+          <Toggle size="sm" pressed={style.underline} onPressedChange={(underline) => update({ underline }, 'Underline')} aria-label="Underline" title="Underline">
+            <Underline className="w-4 h-4" />
+          </Toggle>
+          <Toggle size="sm" pressed={style.uppercase} onPressedChange={(uppercase) => update({ uppercase }, 'Uppercase')} aria-label="Uppercase" title="Uppercase">
+            <CaseUpper className="w-4 h-4" />
+          </Toggle>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Outline {style.strokeWidth}px</Label>
+          <ColorSwatch
+            label="Outline color"
+            value={style.strokeColor ?? '#000000'}
+            onChange={(strokeColor) => update({ strokeColor, strokeWidth: style.strokeWidth || 2 }, 'Outline color')}
+          />
+        </div>
+        <Slider
+          min={0}
+          max={10}
+          step={0.5}
+          value={[style.strokeWidth]}
+          onValueChange={([strokeWidth]) => update({ strokeWidth, strokeColor: style.strokeColor ?? '#000000' }, 'Outline width')}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Shadow</Label>
+          <div className="flex items-center gap-2">
+            {style.shadow && (
+              <ColorSwatch
+                label="Shadow color"
+                value={style.shadow.color.startsWith('#') ? style.shadow.color : '#000000'}
+                onChange={(color) => update({ shadow: { ...style.shadow, color } }, 'Shadow color')}
+              />
+            )}
+            <Switch
+              checked={!!style.shadow}
+              onCheckedChange={(checked) => update({ shadow: checked ? DEFAULT_TEXT_SHADOW : null }, 'Shadow')}
+            />
+          </div>
+        </div>
+        {style.shadow && (
+          <>
+            <Label className="text-xs text-muted-foreground">Blur {style.shadow.blur}</Label>
+            <Slider
+              min={0}
+              max={30}
+              step={1}
+              value={[style.shadow.blur]}
+              onValueChange={([blur]) => update({ shadow: { ...style.shadow, blur } }, 'Shadow blur')}
+            />
+            <Label className="text-xs text-muted-foreground">Distance {style.shadow.offsetX}</Label>
+            <Slider
+              min={0}
+              max={20}
+              step={1}
+              value={[style.shadow.offsetX]}
+              onValueChange={([offset]) => update({ shadow: { ...style.shadow, offsetX: offset, offsetY: offset } }, 'Shadow distance')}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Line height {style.lineHeight.toFixed(2)}</Label>
+        <Slider
+          min={0.7}
+          max={2.5}
+          step={0.05}
+          value={[style.lineHeight]}
+          onValueChange={([lineHeight]) => update({ lineHeight }, 'Line height')}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs">Letter spacing {style.charSpacing}</Label>
+        <Slider
+          min={-200}
+          max={800}
+          step={10}
+          value={[style.charSpacing]}
+          onValueChange={([charSpacing]) => update({ charSpacing }, 'Letter spacing')}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">Highlight</Label>
+        <div className="flex items-center gap-2">
+          {style.highlightColor && (
+            <ColorSwatch
+              label="Highlight color"
+              value={style.highlightColor}
+              onChange={(highlightColor) => update({ highlightColor }, 'Highlight color')}
+            />
+          )}
+          <Switch
+            checked={!!style.highlightColor}
+            onCheckedChange={(checked) => update({ highlightColor: checked ? '#ffff00' : null }, 'Highlight')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { Film, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface VideoExportDialogProps {
+  open: boolean;
+  progress: number;
+  duration: number;
+  onCancel: () => void;
+}
+
+export const VideoExportDialog = ({ open, progress, duration, onCancel }: VideoExportDialogProps) => {
+  const percent = Math.round(progress * 100);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent
+        className="sm:max-w-md"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Film className="w-5 h-5" />
+            Rendering Video
+          </DialogTitle>
+          <DialogDescription>
+            Keep this tab open while every frame is composited. Rendering takes about as long as the clip itself.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          <Progress value={percent} className="h-2" />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{(progress * duration).toFixed(1)}s / {duration.toFixed(1)}s</span>
+            <span>{percent}%</span>
+          </div>
+        </div>
+        <Button variant="outline" onClick={onCancel} className="w-full">
+          <X className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,104 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** Whether the signed-in user's profile has the admin role */
+  isAdmin: boolean;
+  /** True until the persisted session and its role have been restored */
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  /** `confirmEmail` is true when the project requires the address to be confirmed before signing in */
+  signUp: (email: string, password: string) => Promise<{ error: Error | null; confirmEmail: boolean }>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [roleLoading, setRoleLoading] = useState(false);
+  const userId = session?.user.id;
+
+  useEffect(() => {
+    // Subscribe before restoring so a refresh during getSession is not missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setLoading(false);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Resolve the role separately; querying inside onAuthStateChange can deadlock the client
+  useEffect(() => {
+    if (!userId) {
+      setIsAdmin(false);
+      return;
+    }
+
+    let cancelled = false;
+    setRoleLoading(true);
+    supabase.rpc('is_admin').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('Error:', error);
+      setIsAdmin(data === true);
+      setRoleLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const signIn = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error };
+  };
+
+  // New accounts get the 'user' role; admins are promoted in the database
+  const signUp = async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin },
+    });
+    return { error, confirmEmail: !error && !data.session };
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  return (
+    <AuthContext.Provider value={{
+      session,
+      user: session?.user ?? null,
+      isAdmin,
+      loading: loading || roleLoading,
+      signIn,
+      signUp,
+      signOut,
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
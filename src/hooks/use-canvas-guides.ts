@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from "react";
+import { Canvas as FabricCanvas } from "fabric";
+import { DEFAULT_GUIDE_SETTINGS, GuideSettings, watchGuides } from "@/lib/snapping";
+
+const STORAGE_KEY = 'editor-guide-settings';
+
+// Settings carry over between editors and sessions; anything unreadable falls back to defaults
+const loadSettings = (): GuideSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_GUIDE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_GUIDE_SETTINGS;
+  } catch {
+    return DEFAULT_GUIDE_SETTINGS;
+  }
+};
+
+/** Snapping, smart guides, grid and ruler settings for a fabric editor */
+export function useCanvasGuides(canvas: FabricCanvas | null) {
+  const [settings, setSettings] = useState(loadSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving guide settings:', error);
+    }
+  }, [settings]);
+
+  useEffect(() => {
+    if (!canvas) return;
+    return watchGuides(canvas, settings);
+  }, [canvas, settings]);
+
+  const update = useCallback((changes: Partial<GuideSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  return { settings, update };
+}
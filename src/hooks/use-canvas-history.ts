@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Canvas as FabricCanvas, FabricObject, IText } from "fabric";
+import {
+  CommandHistory,
+  DEFAULT_HISTORY_DEPTH,
+  HistoryCommand,
+  TransformSnapshot,
+  captureTransform,
+  createPropertyCommand,
+  createTransformCommand,
+} from "@/lib/history";
+import { isTypingTarget } from "@/lib/shortcuts";
+
+interface UseCanvasHistoryOptions {
+  depth?: number;
+  /** Called after every undo/redo so the editor can resync derived state */
+  onChange?: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  drag: 'Move',
+  rotate: 'Rotate',
+  scale: 'Resize',
+  scaleX: 'Resize',
+  scaleY: 'Resize',
+  resizing: 'Resize',
+  skewX: 'Skew',
+  skewY: 'Skew',
+};
+
+/**
+ * Undo/redo for a fabric editor. Mouse transforms and text edits are recorded
+ * automatically; everything else is recorded by the editor through `push`.
+ */
+export function useCanvasHistory(
+  canvas: FabricCanvas | null,
+  { depth = DEFAULT_HISTORY_DEPTH, onChange }: UseCanvasHistoryOptions = {}
+) {
+  const historyRef = useRef(new CommandHistory(depth));
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const [state, setState] = useState({ canUndo: false, canRedo: false });
+
+  const sync = useCallback(() => {
+    const history = historyRef.current;
+    setState({ canUndo: history.canUndo, canRedo: history.canRedo });
+  }, []);
+
+  useEffect(() => {
+    historyRef.current.setDepth(depth);
+    sync();
+  }, [depth, sync]);
+
+  const push = useCallback((command: HistoryCommand) => {
+    historyRef.current.push(command);
+    sync();
+  }, [sync]);
+
+  const undo = useCallback(() => {
+    if (historyRef.current.undo()) {
+      onChangeRef.current?.();
+      sync();
+    }
+  }, [sync]);
+
+  const redo = useCallback(() => {
+    if (historyRef.current.redo()) {
+      onChangeRef.current?.();
+      sync();
+    }
+  }, [sync]);
+
+  const clear = useCallback(() => {
+    historyRef.current.clear();
+    sync();
+  }, [sync]);
+
+  // Record mouse transforms and inline text edits
+  useEffect(() => {
+    if (!canvas) return;
+    clear();
+
+    let pending: { snapshot: TransformSnapshot; action: string } | null = null;
+    let textBefore: { target: FabricObject; text: string } | null = null;
+
+    const onBeforeTransform = ({ transform }: { transform: { target: FabricObject; action?: string } }) => {
+      pending = { snapshot: captureTransform(transform.target), action: transform.action || '' };
+    };
+    const onModified = ({ target }: { target: FabricObject }) => {
+      if (!pending || pending.snapshot.target !== target) return;
+      const label = ACTION_LABELS[pending.action] || 'Transform';
+      push(createTransformCommand(canvas, pending.snapshot, captureTransform(target), label));
+      pending = null;
+    };
+    const onEditingEntered = ({ target }: { target: IText }) => {
+      textBefore = { target, text: target.text };
+    };
+    const onEditingExited = ({ target }: { target: IText }) => {
+      if (textBefore?.target === target && textBefore.text !== target.text) {
+        push(createPropertyCommand(canvas, target, { text: textBefore.text }, { text: target.text }, 'Edit text'));
+      }
+      textBefore = null;
+    };
+
+    canvas.on('before:transform', onBeforeTransform);
+    canvas.on('object:modified', onModified);
+    canvas.on('text:editing:entered', onEditingEntered);
+    canvas.on('text:editing:exited', onEditingExited);
+    return () => {
+      canvas.off('before:transform', onBeforeTransform);
+      canvas.off('object:modified', onModified);
+      canvas.off('text:editing:entered', onEditingEntered);
+      canvas.off('text:editing:exited', onEditingExited);
+    };
+  }, [canvas, push, clear]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      if (isTypingTarget(e.target)) return;
+      const active = canvas?.getActiveObject();
+      if (active instanceof IText && active.isEditing) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [canvas, undo, redo]);
+
+  return { push, undo, redo, clear, canUndo: state.canUndo, canRedo: state.canRedo };
+}
@@ -0,0 +1,44 @@
+import { RefObject, useEffect, useState } from "react";
+import { Canvas as FabricCanvas } from "fabric";
+import { CanvasSize, fitCanvasSize, setCanvasViewport } from "@/lib/viewport";
+
+/**
+ * Fits the canvas into the space inside `containerRef` (excluding padding) while the
+ * scene keeps its `output` size. Returns the on-screen size and zoom; the zoom is
+ * display pixels per output pixel.
+ */
+export function useCanvasViewport(
+  canvas: FabricCanvas | null,
+  containerRef: RefObject<HTMLElement>,
+  output: CanvasSize
+) {
+  const [bounds, setBounds] = useState<CanvasSize | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setBounds({ width, height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  // Until the container is measured, show the scene at most at its output size
+  const display = fitCanvasSize(output, bounds ?? output);
+  const { width: outputWidth, height: outputHeight } = output;
+  const { width: displayWidth, height: displayHeight } = display;
+
+  // Sizes arrive as fresh objects each render, so the effect depends on their sides
+  useEffect(() => {
+    if (!canvas) return;
+    setCanvasViewport(
+      canvas,
+      { width: outputWidth, height: outputHeight },
+      { width: displayWidth, height: displayHeight }
+    );
+  }, [canvas, outputWidth, outputHeight, displayWidth, displayHeight]);
+
+  return { display, zoom: display.width / output.width };
+}
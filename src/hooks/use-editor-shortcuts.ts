@@ -0,0 +1,150 @@
+import { useEffect, useRef } from "react";
+import { Canvas as FabricCanvas, FabricObject, IText } from "fabric";
+import {
+  applyObjectOrder,
+  captureTransform,
+  createReorderCommand,
+  createTransformCommand,
+  getObjectKey,
+  HistoryCommand,
+} from "@/lib/history";
+import { selectObjects, shiftStackOrder, StackDirection } from "@/lib/selection";
+import { isInDialog, isTypingTarget, LARGE_NUDGE_STEP, NUDGE_STEP } from "@/lib/shortcuts";
+
+interface EditorShortcutHandlers {
+  /** Records nudges and layer moves for undo */
+  onCommand: (command: HistoryCommand) => void;
+  /** Called after a nudge or layer move so the editor can resync derived state */
+  onChange?: () => void;
+  onDelete: (objects: FabricObject[]) => void;
+  onCopy: (objects: FabricObject[]) => void;
+  onPaste: () => void;
+  onDuplicate: (objects: FabricObject[]) => void;
+  onShowShortcuts: () => void;
+  /** Objects Ctrl+A selects; defaults to every visible, selectable object */
+  canSelectAll?: (obj: FabricObject) => boolean;
+}
+
+const ARROW_OFFSETS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+const isMovable = (obj: FabricObject) => !obj.lockMovementX && !obj.lockMovementY;
+
+/**
+ * Keyboard shortcuts shared by the editors (see SHORTCUT_GROUPS). Nudging, layer
+ * order and selection are handled here; deleting, copying and pasting go through
+ * the editor, which owns the pending uploads. Undo/redo live in useCanvasHistory.
+ */
+export function useEditorShortcuts(canvas: FabricCanvas | null, handlers: EditorShortcutHandlers) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!canvas) return;
+
+    const nudge = (dx: number, dy: number) => {
+      const target = canvas.getActiveObject();
+      if (!target || !canvas.getActiveObjects().every(isMovable)) return;
+      const before = captureTransform(target);
+      target.set({ left: target.left + dx, top: target.top + dy });
+      target.setCoords();
+      canvas.requestRenderAll();
+      // Holding an arrow key makes one undo step per selection
+      const keys = canvas.getActiveObjects().map(getObjectKey).join(',');
+      handlersRef.current.onCommand({
+        ...createTransformCommand(canvas, before, captureTransform(target), 'Nudge'),
+        mergeKey: `nudge:${keys}`,
+      });
+      handlersRef.current.onChange?.();
+    };
+
+    const shiftStack = (direction: StackDirection) => {
+      const selected = canvas.getActiveObjects();
+      if (selected.length === 0 || !selected.every(isMovable)) return;
+      const before = [...canvas.getObjects()];
+      const after = shiftStackOrder(before, selected, direction);
+      if (after.every((obj, index) => obj === before[index])) return;
+      applyObjectOrder(canvas, after);
+      handlersRef.current.onCommand(createReorderCommand(canvas, before, after));
+      handlersRef.current.onChange?.();
+    };
+
+    const selectAll = () => {
+      const { canSelectAll = (obj: FabricObject) => obj.selectable && obj.visible } = handlersRef.current;
+      selectObjects(canvas, canvas.getObjects().filter(canSelectAll));
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || isInDialog(e.target)) return;
+      const active = canvas.getActiveObject();
+      if (active instanceof IText && active.isEditing) return;
+
+      const handlers = handlersRef.current;
+      const selected = canvas.getActiveObjects();
+
+      if (e.ctrlKey || e.metaKey) {
+        switch (e.key.toLowerCase()) {
+          case 'c':
+            if (selected.length === 0) return;
+            handlers.onCopy(selected);
+            break;
+          case 'v':
+            handlers.onPaste();
+            break;
+          case 'd':
+            if (selected.length === 0) return;
+            handlers.onDuplicate(selected);
+            break;
+          case 'a':
+            selectAll();
+            break;
+          default:
+            return;
+        }
+        e.preventDefault();
+        return;
+      }
+
+      if (e.key in ARROW_OFFSETS) {
+        if (!active) return;
+        const [x, y] = ARROW_OFFSETS[e.key];
+        const step = e.shiftKey ? LARGE_NUDGE_STEP : NUDGE_STEP;
+        e.preventDefault();
+        nudge(x * step, y * step);
+        return;
+      }
+
+      switch (e.key) {
+        case 'Delete':
+        case 'Backspace':
+          if (selected.length === 0) return;
+          handlers.onDelete(selected);
+          break;
+        case 'Escape':
+          if (!active) return;
+          canvas.discardActiveObject();
+          canvas.requestRenderAll();
+          break;
+        case ']':
+          shiftStack('forward');
+          break;
+        case '[':
+          shiftStack('backward');
+          break;
+        case '?':
+          handlers.onShowShortcuts();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [canvas]);
+}
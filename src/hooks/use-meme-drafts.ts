@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Template } from "@/components/Dashboard";
+import { deleteDraft, getDraftKey, listDrafts, saveDraft } from "@/lib/drafts";
+import type { LayoutDefinition } from "@/lib/layout";
+import { getLocalAssetIds } from "@/lib/memeState";
+import type { UserMeme } from "@/hooks/use-user-memes";
+
+export const MEME_DRAFTS_QUERY_KEY = ['meme-drafts'] as const;
+
+const AUTOSAVE_INTERVAL_MS = 2000;
+
+export interface DraftSnapshot {
+  layout: LayoutDefinition;
+  /** Pending uploads keyed by imageId / videoId */
+  files: Record<string, File>;
+}
+
+interface UseDraftAutosaveOptions {
+  /** Saved meme being edited, whose draft is kept apart from the template's */
+  meme?: Pick<UserMeme, 'id' | 'name' | 'thumbnail_url'> | null;
+  /** Current meme, or null while the canvas is not ready */
+  getSnapshot: () => DraftSnapshot | null;
+  /** Stops saving, e.g. while the user decides whether to resume an older draft */
+  paused?: boolean;
+}
+
+// Drafts saved in this browser, most recent first
+export function useMemeDrafts() {
+  return useQuery({
+    queryKey: MEME_DRAFTS_QUERY_KEY,
+    queryFn: listDrafts,
+  });
+}
+
+/**
+ * Autosaves the meme being edited as its template's (or saved meme's) draft. The snapshot is polled and
+ * written only when its layout changed since the last save or `markClean` call. Nothing
+ * is saved until `markClean` has been called once loading finishes.
+ */
+export function useDraftAutosave(template: Template, { meme, getSnapshot, paused = false }: UseDraftAutosaveOptions) {
+  const queryClient = useQueryClient();
+  const getSnapshotRef = useRef(getSnapshot);
+  getSnapshotRef.current = getSnapshot;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  // Serialised layout last written (or loaded); null while the canvas is loading
+  const lastSavedRef = useRef<string | null>(null);
+  const memeId = meme?.id;
+  const name = meme?.name ?? template.name;
+  const thumbnailUrl = meme ? meme.thumbnail_url ?? undefined : template.thumbnail_url;
+  const draftKey = getDraftKey({ templateId: template.id, memeId });
+
+  const flush = useCallback(async () => {
+    if (pausedRef.current || lastSavedRef.current === null) return;
+    const snapshot = getSnapshotRef.current();
+    if (!snapshot) return;
+
+    const json = JSON.stringify(snapshot.layout);
+    if (json === lastSavedRef.current) return;
+    // Uploads are React state, so a just-added file may not be visible yet; retry next time
+    const assetIds = getLocalAssetIds(snapshot.layout);
+    if (assetIds.some((id) => !snapshot.files[id])) return;
+
+    lastSavedRef.current = json;
+    try {
+      await saveDraft({
+        templateId: template.id,
+        memeId,
+        templateName: name,
+        templateType: template.type,
+        thumbnailUrl,
+        templateUpdatedAt: template.updated_at,
+        layout: snapshot.layout,
+        assets: Object.fromEntries(assetIds.map((id) => [id, snapshot.files[id]])),
+        savedAt: Date.now(),
+      });
+      queryClient.invalidateQueries({ queryKey: MEME_DRAFTS_QUERY_KEY });
+    } catch (error) {
+      console.error('Error saving draft:', error);
+    }
+  }, [template, memeId, name, thumbnailUrl, queryClient]);
+
+  // Stop saving while the canvas is cleared and reloaded
+  const suspend = useCallback(() => {
+    lastSavedRef.current = null;
+  }, []);
+
+  // Treat the current canvas as saved, e.g. the untouched template or a resumed draft
+  const markClean = useCallback(() => {
+    const snapshot = getSnapshotRef.current();
+    lastSavedRef.current = snapshot ? JSON.stringify(snapshot.layout) : null;
+  }, []);
+
+  const discard = useCallback(async () => {
+    try {
+      await deleteDraft(draftKey);
+      queryClient.invalidateQueries({ queryKey: MEME_DRAFTS_QUERY_KEY });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+    }
+  }, [draftKey, queryClient]);
+
+  // Poll for changes, and save right away when the tab is hidden or the page unloads
+  useEffect(() => {
+    const interval = setInterval(flush, AUTOSAVE_INTERVAL_MS);
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  return { draftKey, flush, suspend, markClean, discard };
+}
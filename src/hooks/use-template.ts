@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Template } from "@/components/Dashboard";
+
+export const templateQueryKey = (id: string) => ['template', id] as const;
+
+// Full row including layout_definition
+export const fetchTemplate = async (id: string) => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Template | null;
+};
+
+/**
+ * Loads a single template by id, including its layout. The result never goes stale on
+ * its own, since a refetch would hand the editor a new object and reset the canvas.
+ */
+export function useTemplate(id: string | undefined) {
+  return useQuery({
+    queryKey: templateQueryKey(id ?? ''),
+    queryFn: () => fetchTemplate(id),
+    enabled: !!id,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,80 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TemplateSummary } from "@/components/Dashboard";
+import { buildPrefixQuery, TemplateSort } from "@/lib/templateSearch";
+
+export const TEMPLATE_PAGE_SIZE = 24;
+
+// Everything a grid card needs; layout_definition is loaded only when a template is opened
+const SUMMARY_COLUMNS = 'id, name, type, tags, thumbnail_url, use_count, created_at, updated_at';
+
+export interface TemplateFilters {
+  type: 'photo' | 'video';
+  query: string;
+  tags: string[];
+  sort: TemplateSort;
+}
+
+// Root keys so saves can invalidate every cached page at once
+export const TEMPLATES_QUERY_KEY = ['templates'] as const;
+export const TEMPLATE_TAGS_QUERY_KEY = ['template-tags'] as const;
+
+const fetchTemplatePage = async ({ type, query, tags, sort }: TemplateFilters, page: number) => {
+  const from = page * TEMPLATE_PAGE_SIZE;
+  let request = supabase
+    .from('templates')
+    .select(SUMMARY_COLUMNS)
+    .eq('type', type);
+
+  const tsQuery = buildPrefixQuery(query);
+  if (tsQuery) {
+    request = request.textSearch('search_vector', tsQuery, { config: 'simple' });
+  }
+  if (tags.length > 0) {
+    request = request.contains('tags', tags);
+  }
+
+  if (sort === 'name') {
+    request = request.order('name', { ascending: true });
+  } else if (sort === 'popular') {
+    request = request.order('use_count', { ascending: false }).order('created_at', { ascending: false });
+  } else {
+    request = request.order('created_at', { ascending: false });
+  }
+  // Tie-break on id so rows never shift between pages
+  request = request.order('id', { ascending: true });
+
+  const { data, error } = await request.range(from, from + TEMPLATE_PAGE_SIZE - 1);
+  if (error) throw error;
+  return data as TemplateSummary[];
+};
+
+/** Template cards in pages of TEMPLATE_PAGE_SIZE, cached per type and filter combination */
+export function useTemplatePages(filters: TemplateFilters) {
+  return useInfiniteQuery({
+    queryKey: [...TEMPLATES_QUERY_KEY, filters],
+    queryFn: ({ pageParam }) => fetchTemplatePage(filters, pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < TEMPLATE_PAGE_SIZE ? undefined : allPages.length,
+    staleTime: 60 * 1000,
+  });
+}
+
+/** Every tag used by templates of one type, for the filter chips */
+export function useTemplateTags(type: 'photo' | 'video') {
+  return useQuery({
+    queryKey: [...TEMPLATE_TAGS_QUERY_KEY, type],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('templates')
+        .select('tags')
+        .eq('type', type);
+
+      if (error) throw error;
+      const tags = new Set(data.flatMap((row) => row.tags || []));
+      return [...tags].sort((a, b) => a.localeCompare(b));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,178 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/use-auth";
+import type { LayoutDefinition } from "@/lib/layout";
+import { getLocalAssetIds, replaceLocalAssets } from "@/lib/memeState";
+import {
+  collectTemplateAssetPaths,
+  generateUserMemeAssetPath,
+  TEMPLATE_ASSETS_BUCKET,
+  USER_MEMES_FOLDER,
+} from "@/lib/storage";
+
+export interface UserMeme {
+  id: string;
+  /** Null once the template has been deleted; the layout still loads on its own */
+  template_id: string | null;
+  name: string;
+  type: 'photo' | 'video';
+  // Same element-list format as templates; read it through loadLayoutDefinition
+  layout_definition: Json;
+  thumbnail_url: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the My Memes list shows; the layout is loaded when a meme is opened
+export type UserMemeSummary = Omit<UserMeme, 'layout_definition'>;
+
+const SUMMARY_COLUMNS = 'id, template_id, name, type, thumbnail_url, created_at, updated_at';
+
+export const USER_MEMES_QUERY_KEY = ['user-memes'] as const;
+
+export const userMemeQueryKey = (id: string) => ['user-meme', id] as const;
+
+// The signed-in user's saved memes, most recently edited first
+export function useUserMemes() {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: [...USER_MEMES_QUERY_KEY, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_memes')
+        .select(SUMMARY_COLUMNS)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      return data as UserMemeSummary[];
+    },
+    enabled: !!user,
+  });
+}
+
+export const fetchUserMeme = async (id: string) => {
+  const { data, error } = await supabase
+    .from('user_memes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as UserMeme | null;
+};
+
+// Like useTemplate, never refetched on its own so the open editor is not reset
+export function useUserMeme(id: string | undefined) {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: userMemeQueryKey(id ?? ''),
+    queryFn: () => fetchUserMeme(id),
+    // Row-level security hides every meme until the session is restored
+    enabled: !!id && !!user,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+}
+
+// Only files in the user's own folder are theirs to delete
+const getOwnAssetPaths = (userId: string, ...values: unknown[]) =>
+  collectTemplateAssetPaths(...values).filter((path) => path.startsWith(`${USER_MEMES_FOLDER}/${userId}/`));
+
+const removeAssets = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(TEMPLATE_ASSETS_BUCKET).remove(paths);
+  if (error) console.error('Error removing meme assets:', error);
+};
+
+const uploadAsset = async (path: string, file: Blob) => {
+  const { error } = await supabase.storage
+    .from(TEMPLATE_ASSETS_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+  if (error) throw error;
+  return supabase.storage.from(TEMPLATE_ASSETS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+interface SaveUserMemeOptions {
+  userId: string;
+  /** Row to overwrite; a new meme is created when omitted */
+  existing?: UserMeme | null;
+  templateId: string | null;
+  name: string;
+  type: 'photo' | 'video';
+  /** Layout referencing files not uploaded yet as `local-asset:` URLs */
+  layout: LayoutDefinition;
+  files: Record<string, File>;
+  thumbnail: Blob;
+}
+
+/**
+ * Uploads the meme's new files and thumbnail, then inserts or updates its row. Files the
+ * previous version used and this one does not are removed afterwards. Returns the saved
+ * row and the uploaded URLs keyed by asset id.
+ */
+export const saveUserMeme = async ({
+  userId,
+  existing,
+  templateId,
+  name,
+  type,
+  layout,
+  files,
+  thumbnail,
+}: SaveUserMemeOptions) => {
+  const uploadedPaths: string[] = [];
+  const upload = async (file: Blob, extension: string) => {
+    const path = generateUserMemeAssetPath(userId, extension);
+    const url = await uploadAsset(path, file);
+    uploadedPaths.push(path);
+    return url;
+  };
+
+  try {
+    const uploadedUrls: Record<string, string> = {};
+    for (const assetId of getLocalAssetIds(layout)) {
+      const file = files[assetId];
+      if (!file) throw new Error(`File for ${assetId} is missing`);
+      uploadedUrls[assetId] = await upload(file, file.name.split('.').pop() || 'bin');
+    }
+    const thumbnailUrl = await upload(thumbnail, 'png');
+    const layoutDefinition = replaceLocalAssets(layout, uploadedUrls);
+
+    const row = {
+      template_id: templateId,
+      name,
+      type,
+      layout_definition: layoutDefinition as unknown as Json,
+      thumbnail_url: thumbnailUrl,
+      // Lets template cleanup keep the template files this meme still uses
+      asset_paths: collectTemplateAssetPaths(layoutDefinition),
+    };
+    const { data, error } = existing
+      ? await supabase.from('user_memes').update(row).eq('id', existing.id).select('*').single()
+      : await supabase.from('user_memes').insert(row).select('*').single();
+    if (error) throw error;
+
+    if (existing) {
+      const kept = new Set(collectTemplateAssetPaths(layoutDefinition, thumbnailUrl));
+      await removeAssets(
+        getOwnAssetPaths(userId, existing.layout_definition, existing.thumbnail_url).filter((path) => !kept.has(path))
+      );
+    }
+    return { meme: data as UserMeme, uploadedUrls };
+  } catch (error) {
+    // Nothing references the files uploaded by a failed save
+    await removeAssets(uploadedPaths);
+    throw error;
+  }
+};
+
+// Deletes a saved meme together with the files in the user's folder it used
+export const deleteUserMeme = async (userId: string, id: string) => {
+  const meme = await fetchUserMeme(id);
+  if (!meme) return;
+
+  const { error } = await supabase.from('user_memes').delete().eq('id', id);
+  if (error) throw error;
+  await removeAssets(getOwnAssetPaths(userId, meme.layout_definition, meme.thumbnail_url));
+};
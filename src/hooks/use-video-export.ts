@@ -0,0 +1,52 @@
+import { useRef, useState } from "react";
+import type { Canvas as FabricCanvas } from "fabric";
+import { toast } from "sonner";
+import { downloadBlob, exportCanvasVideo, VideoExportCancelledError, VideoExportOptions } from "@/lib/videoExport";
+
+type StartExportOptions = Omit<VideoExportOptions, 'signal' | 'onProgress'> & {
+  fileName: string;
+};
+
+export function useVideoExport() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Resolves to true once the file has been downloaded
+  const startExport = async (canvas: FabricCanvas, { fileName, ...options }: StartExportOptions) => {
+    if (abortRef.current) return false;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setIsExporting(true);
+
+    try {
+      const { blob, extension } = await exportCanvasVideo(canvas, {
+        ...options,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      downloadBlob(blob, `${fileName}.${extension}`);
+      toast.success("Video downloaded successfully!");
+      return true;
+    } catch (error) {
+      if (error instanceof VideoExportCancelledError) {
+        toast.info("Video export cancelled");
+      } else {
+        console.error('Video export error:', error);
+        toast.error(error instanceof Error ? error.message : "Failed to export video");
+      }
+      return false;
+    } finally {
+      abortRef.current = null;
+      setIsExporting(false);
+    }
+  };
+
+  const cancelExport = () => {
+    abortRef.current?.abort();
+  };
+
+  return { isExporting, progress, startExport, cancelExport };
+}
@@ -35,48 +35,147 @@ export type Database = {
         }
         Relationships: []
       }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       templates: {
         Row: {
           created_at: string
           id: string
           layout_definition: Json
           name: string
+          search_vector: unknown | null
+          source_template_id: string | null
           tags: string[] | null
           thumbnail_url: string | null
           type: string
           updated_at: string
+          use_count: number
         }
         Insert: {
           created_at?: string
           id?: string
           layout_definition: Json
           name: string
+          search_vector?: unknown | null
+          source_template_id?: string | null
           tags?: string[] | null
           thumbnail_url?: string | null
           type: string
           updated_at?: string
+          use_count?: number
         }
         Update: {
           created_at?: string
           id?: string
           layout_definition?: Json
           name?: string
+          search_vector?: unknown | null
+          source_template_id?: string | null
           tags?: string[] | null
           thumbnail_url?: string | null
           type?: string
           updated_at?: string
+          use_count?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "templates_source_template_id_fkey"
+            columns: ["source_template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_memes: {
+        Row: {
+          asset_paths: string[]
+          created_at: string
+          id: string
+          layout_definition: Json
+          name: string
+          template_id: string | null
+          thumbnail_url: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          asset_paths?: string[]
+          created_at?: string
+          id?: string
+          layout_definition: Json
+          name: string
+          template_id?: string | null
+          thumbnail_url?: string | null
+          type: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          asset_paths?: string[]
+          created_at?: string
+          id?: string
+          layout_definition?: Json
+          name?: string
+          template_id?: string | null
+          thumbnail_url?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_memes_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      increment_template_use: {
+        Args: { template_id: string }
+        Returns: undefined
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      user_meme_asset_paths: {
+        Args: { paths: string[] }
+        Returns: string[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "user"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -203,6 +302,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "user"],
+    },
   },
 } as const
@@ -0,0 +1,107 @@
+import { Canvas as FabricCanvas, FabricObject, TBBox } from "fabric";
+import { captureTransform, createBatchCommand, createTransformCommand, HistoryCommand } from "./history";
+import { withDiscardedSelection } from "./selection";
+import { getSceneSize } from "./viewport";
+
+export type AlignEdge = 'left' | 'centerX' | 'right' | 'top' | 'centerY' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+/** Whether objects line up within their combined bounds or the whole canvas */
+export type ArrangeFrame = 'selection' | 'canvas';
+
+interface Move {
+  obj: FabricObject;
+  dx: number;
+  dy: number;
+}
+
+const unionBounds = (boxes: TBBox[]): TBBox => {
+  const left = Math.min(...boxes.map((box) => box.left));
+  const top = Math.min(...boxes.map((box) => box.top));
+  const right = Math.max(...boxes.map((box) => box.left + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+const getFrame = (canvas: FabricCanvas, boxes: TBBox[], frame: ArrangeFrame): TBBox =>
+  frame === 'canvas' ? { left: 0, top: 0, ...getSceneSize(canvas) } : unionBounds(boxes);
+
+/**
+ * Moves objects by the offsets `plan` works out from their bounding boxes in canvas
+ * coordinates, then reselects them. Returns the undo step, or null if nothing moved.
+ */
+const rearrange = (
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  label: string,
+  plan: (boxes: TBBox[]) => Omit<Move, 'obj'>[]
+): HistoryCommand | null =>
+  withDiscardedSelection(canvas, () => {
+    const offsets = plan(objects.map((obj) => obj.getBoundingRect()));
+    const moves = objects
+      .map((obj, i) => ({ obj, ...offsets[i] }))
+      .filter(({ dx, dy }) => Math.abs(dx) > 0.01 || Math.abs(dy) > 0.01);
+    if (moves.length === 0) return null;
+
+    const commands = moves.map(({ obj, dx, dy }) => {
+      const before = captureTransform(obj);
+      obj.set({ left: obj.left + dx, top: obj.top + dy });
+      obj.setCoords();
+      return createTransformCommand(canvas, before, captureTransform(obj), label);
+    });
+    canvas.requestRenderAll();
+    return createBatchCommand(label, commands);
+  });
+
+/** Lines objects up on one edge or centre line of their combined bounds or the canvas */
+export const alignObjects = (canvas: FabricCanvas, objects: FabricObject[], edge: AlignEdge, frame: ArrangeFrame) =>
+  rearrange(canvas, objects, 'Align', (boxes) => {
+    const target = getFrame(canvas, boxes, frame);
+    return boxes.map((box) => {
+      switch (edge) {
+        case 'left':
+          return { dx: target.left - box.left, dy: 0 };
+        case 'centerX':
+          return { dx: target.left + (target.width - box.width) / 2 - box.left, dy: 0 };
+        case 'right':
+          return { dx: target.left + target.width - box.width - box.left, dy: 0 };
+        case 'top':
+          return { dx: 0, dy: target.top - box.top };
+        case 'centerY':
+          return { dx: 0, dy: target.top + (target.height - box.height) / 2 - box.top };
+        case 'bottom':
+          return { dx: 0, dy: target.top + target.height - box.height - box.top };
+      }
+    });
+  });
+
+/**
+ * Spaces objects evenly along an axis. Within the selection the outermost objects
+ * stay put, so at least three are needed; on the canvas the gaps at both ends count too.
+ */
+export const distributeObjects = (
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  axis: DistributeAxis,
+  frame: ArrangeFrame
+) =>
+  rearrange(canvas, objects, 'Distribute', (boxes) => {
+    const horizontal = axis === 'horizontal';
+    const start = (box: TBBox) => (horizontal ? box.left : box.top);
+    const size = (box: TBBox) => (horizontal ? box.width : box.height);
+    const offset = (delta: number) => (horizontal ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+
+    const target = getFrame(canvas, boxes, frame);
+    const order = boxes.map((_, i) => i).sort((a, b) => start(boxes[a]) - start(boxes[b]));
+    const free = size(target) - boxes.reduce((total, box) => total + size(box), 0);
+    const gaps = frame === 'canvas' ? boxes.length + 1 : boxes.length - 1;
+    if (gaps < 1) return boxes.map(() => offset(0));
+
+    const gap = free / gaps;
+    const offsets = boxes.map(() => offset(0));
+    let position = start(target) + (frame === 'canvas' ? gap : 0);
+    order.forEach((i) => {
+      offsets[i] = offset(position - start(boxes[i]));
+      position += size(boxes[i]) + gap;
+    });
+    return offsets;
+  });
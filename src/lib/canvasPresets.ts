@@ -0,0 +1,26 @@
+import type { CanvasSize } from "./viewport";
+
+export interface CanvasPreset extends CanvasSize {
+  id: string;
+  label: string;
+}
+
+/** Output sizes offered in the template creator; any other size counts as custom */
+export const CANVAS_PRESETS: CanvasPreset[] = [
+  { id: 'square', label: 'Square post (1:1)', width: 1080, height: 1080 },
+  { id: 'portrait', label: 'Portrait post (4:5)', width: 1080, height: 1350 },
+  { id: 'story', label: 'Story / Reel (9:16)', width: 1080, height: 1920 },
+  { id: 'landscape', label: 'YouTube thumbnail (16:9)', width: 1280, height: 720 },
+  { id: 'header', label: 'Twitter header (3:1)', width: 1500, height: 500 },
+];
+
+// Bounds for custom sizes; browsers refuse to draw canvases much larger than this
+export const MIN_CANVAS_SIZE = 50;
+export const MAX_CANVAS_SIZE = 4096;
+
+export const findCanvasPreset = ({ width, height }: CanvasSize) =>
+  CANVAS_PRESETS.find((preset) => preset.width === width && preset.height === height) ?? null;
+
+// Whole pixels within the custom size bounds
+export const clampCanvasSide = (value: number) =>
+  Math.min(MAX_CANVAS_SIZE, Math.max(MIN_CANVAS_SIZE, Math.round(value)));
@@ -0,0 +1,99 @@
+import { FabricObject } from "fabric";
+import type { LayoutElement } from "./layout";
+import { createObjectFromElement, EditorObject, getNestedObjects, serializeCanvasObject } from "./fabricLayout";
+import { linkLocalAssets, LOCAL_ASSET_PREFIX, resolveLocalAssets } from "./memeState";
+
+/** Copied elements, plus the files of images and videos that are not uploaded yet */
+export interface ClipboardContent {
+  elements: LayoutElement[];
+  /** Keyed by the id in the elements' `local-asset:` URLs */
+  files: Record<string, File>;
+}
+
+export interface PastedObject {
+  obj: EditorObject;
+  /** Pending uploads for the copy (or its grouped objects), keyed by their new imageId / videoId */
+  files: Record<string, File>;
+}
+
+/** How far each paste lands from the previous one */
+export const PASTE_OFFSET = 10;
+
+// Shared by both editors, so elements can be copied from one and pasted into the other
+let clipboard: ClipboardContent | null = null;
+let pasteCount = 0;
+
+const createAssetId = (kind: 'image' | 'video') =>
+  `${kind}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+
+const serializeObjects = (objects: FabricObject[], files: Record<string, File>) => {
+  const content: ClipboardContent = { elements: [], files: {} };
+  const urls: Record<string, string> = {};
+  objects.flatMap(getNestedObjects).forEach((obj) => {
+    const assetId = obj.imageId ?? obj.videoId;
+    if (!assetId || !files[assetId]) return;
+    urls[assetId] = `${LOCAL_ASSET_PREFIX}${assetId}`;
+    content.files[assetId] = files[assetId];
+  });
+
+  objects.forEach((obj, index) => {
+    const element = serializeCanvasObject(obj, index, { imageUrls: urls, videoUrls: urls });
+    if (!element) return;
+    // A copied slot photo becomes a free-standing image
+    if (element.type === 'image') {
+      const { slotId, ...image } = element;
+      content.elements.push(image);
+    } else {
+      content.elements.push(element);
+    }
+  });
+  return content;
+};
+
+const createPastedObjects = async ({ elements, files }: ClipboardContent, offset: number) => {
+  const pasted: PastedObject[] = [];
+  for (const copied of elements) {
+    const { element, assetIds } = resolveLocalAssets({ ...copied, x: copied.x + offset, y: copied.y + offset }, files);
+    const obj = await createObjectFromElement(element);
+    const linked = linkLocalAssets(obj, assetIds, files);
+
+    // Each copy is uploaded separately, so deleting one never drops the other's file
+    const copyFiles: Record<string, File> = {};
+    getNestedObjects(obj).forEach((nested) => {
+      if (nested.videoId && linked[nested.videoId]) {
+        const videoId = createAssetId('video');
+        copyFiles[videoId] = linked[nested.videoId];
+        nested.videoId = videoId;
+      } else if (nested.imageId && linked[nested.imageId]) {
+        const imageId = createAssetId('image');
+        copyFiles[imageId] = linked[nested.imageId];
+        nested.imageId = imageId;
+      }
+    });
+    pasted.push({ obj, files: copyFiles });
+  }
+  return pasted;
+};
+
+/** Copies objects, replacing the clipboard. `files` are the editor's pending uploads by id */
+export const copyObjects = (objects: FabricObject[], files: Record<string, File>) => {
+  const content = serializeObjects(objects, files);
+  if (content.elements.length === 0) return false;
+  clipboard = content;
+  pasteCount = 0;
+  return true;
+};
+
+/**
+ * Recreates the clipboard's objects, each paste a step further from the originals.
+ * Returns null when nothing has been copied; rejects when a file cannot be loaded.
+ */
+export const pasteObjects = async () => {
+  if (!clipboard) return null;
+  pasteCount += 1;
+  return createPastedObjects(clipboard, pasteCount * PASTE_OFFSET);
+};
+
+// Like copying then pasting once, but leaves the clipboard as it was
+export const duplicateObjects = (objects: FabricObject[], files: Record<string, File>) =>
+  createPastedObjects(serializeObjects(objects, files), PASTE_OFFSET);
@@ -0,0 +1,42 @@
+import { createStore, del, get, set, values } from "idb-keyval";
+import type { LayoutDefinition } from "./layout";
+
+/** A meme in progress, autosaved in the browser so it survives leaving the editor */
+export interface MemeDraft {
+  templateId: string;
+  /** Set when editing a meme saved to My Memes; its draft is kept apart from the template's */
+  memeId?: string;
+  /** Template name, or the saved meme's name */
+  templateName: string;
+  templateType: 'photo' | 'video';
+  thumbnailUrl?: string;
+  /** `updated_at` of the template the draft was started from */
+  templateUpdatedAt: string;
+  layout: LayoutDefinition;
+  /** Files not uploaded yet, keyed by the id in their `local-asset:` URL */
+  assets: Record<string, File>;
+  savedAt: number;
+}
+
+// What the drafts list shows, without the layout and files
+export type MemeDraftSummary = Omit<MemeDraft, 'layout' | 'assets'>;
+
+// One record per template or saved meme, so reopening it finds its draft directly
+const draftStore = createStore('meme-drafts', 'drafts');
+
+export const getDraftKey = ({ templateId, memeId }: Pick<MemeDraft, 'templateId' | 'memeId'>) =>
+  memeId ? `meme:${memeId}` : templateId;
+
+export const saveDraft = (draft: MemeDraft) => set(getDraftKey(draft), draft, draftStore);
+
+export const loadDraft = (key: string) => get<MemeDraft>(key, draftStore);
+
+export const deleteDraft = (key: string) => del(key, draftStore);
+
+// Most recently saved first
+export const listDrafts = async (): Promise<MemeDraftSummary[]> => {
+  const drafts = await values<MemeDraft>(draftStore);
+  return drafts
+    .map(({ layout, assets, ...summary }) => summary)
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
@@ -0,0 +1,64 @@
+import { FabricObject, Textbox } from "fabric";
+import type { ElementPermissions } from "./layout";
+import type { EditorObject } from "./fabricLayout";
+import { isSlotPlaceholder } from "./slots";
+
+export type ElementPermission = keyof ElementPermissions;
+
+export const PERMISSION_OPTIONS: { key: ElementPermission; label: string; description: string; textboxOnly?: boolean }[] = [
+  { key: 'locked', label: 'Locked', description: 'Users cannot select or change it' },
+  { key: 'positionLocked', label: 'Position locked', description: 'Users can restyle it but not move or delete it' },
+  { key: 'textOnly', label: 'Text only', description: 'Users can change the wording only', textboxOnly: true },
+  { key: 'hiddenFromLayers', label: 'Hide from layers', description: 'Not shown in the Elements list' },
+];
+
+// Any flag that stops users from moving or deleting the element
+export const isElementLocked = (obj: FabricObject) => {
+  const { permissions } = obj as EditorObject;
+  return !!(permissions?.locked || permissions?.positionLocked || permissions?.textOnly);
+};
+
+export const canDeleteElement = (obj: FabricObject) => !isElementLocked(obj);
+
+// Colour and font changes
+export const canRestyleElement = (obj: FabricObject) => {
+  const { permissions } = obj as EditorObject;
+  return !permissions?.locked && !permissions?.textOnly;
+};
+
+export const isHiddenFromLayers = (obj: FabricObject) => !!(obj as EditorObject).permissions?.hiddenFromLayers;
+
+/**
+ * Applies an element's permissions to its fabric object for MemeEditor. TemplateCreator
+ * skips this so admins can still edit locked elements.
+ */
+export const applyElementPermissions = (obj: FabricObject) => {
+  const { permissions } = obj as EditorObject;
+  if (!permissions) return;
+
+  if (permissions.locked) {
+    // Slots stay evented so a locked slot can still take the user's photo
+    obj.set({ selectable: false, evented: isSlotPlaceholder(obj) });
+    return;
+  }
+
+  const fixedPosition = permissions.positionLocked || permissions.textOnly;
+  if (fixedPosition) {
+    obj.set({
+      lockMovementX: true,
+      lockMovementY: true,
+      lockScalingX: true,
+      lockScalingY: true,
+      lockRotation: true,
+      lockSkewingX: true,
+      lockSkewingY: true,
+      hasControls: false,
+      hoverCursor: 'default',
+    });
+  }
+
+  // Any other element marked text-only cannot be edited at all
+  if (permissions.textOnly && !(obj instanceof Textbox)) {
+    obj.set({ selectable: false, evented: isSlotPlaceholder(obj) });
+  }
+};
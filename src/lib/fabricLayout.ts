@@ -0,0 +1,347 @@
+import { ActiveSelection, Circle, FabricImage, FabricObject, Group, LayoutManager, Rect, Textbox, util } from "fabric";
+import type { ElementConstraints, ElementPermissions, ElementTransform, LayoutElement } from "./layout";
+import { SlotPlaceholder } from "./slots";
+import { DEFAULT_TEXT_STYLE, getTextStyle, getTextStyleProps } from "./textStyle";
+import type { FittedTextbox } from "./textFit";
+
+/** Custom properties the editors attach to fabric objects */
+export interface EditorObjectMeta {
+  imageId?: string;
+  imageUrl?: string;
+  videoId?: string;
+  videoUrl?: string;
+  isVideo?: boolean;
+  videoDuration?: number;
+  videoElement?: HTMLVideoElement;
+  originalFileName?: string;
+  /** Placeholder this photo fills in MemeEditor */
+  slot?: SlotPlaceholder;
+  /** Restrictions admins set in TemplateCreator; enforced by applyElementPermissions */
+  permissions?: ElementPermissions;
+  /** Where the element goes when the template is resized; applied by resizeLayout */
+  constraints?: ElementConstraints;
+}
+
+export type EditorObject = FabricObject & EditorObjectMeta;
+
+// An object followed by everything grouped inside it, at any depth
+export const getNestedObjects = (obj: FabricObject): EditorObject[] =>
+  obj instanceof Group ? [obj, ...obj.getObjects().flatMap(getNestedObjects)] : [obj];
+
+export interface AssetUrlMaps {
+  /** Freshly uploaded image URLs keyed by the object's imageId */
+  imageUrls?: Record<string, string>;
+  /** Freshly uploaded video URLs keyed by the object's videoId */
+  videoUrls?: Record<string, string>;
+}
+
+export const getObjectTransform = (obj: FabricObject): ElementTransform => ({
+  x: obj.left,
+  y: obj.top,
+  width: obj.width,
+  height: obj.height,
+  scaleX: obj.scaleX,
+  scaleY: obj.scaleY,
+  angle: obj.angle,
+  originX: obj.originX,
+  originY: obj.originY,
+  flipX: obj.flipX,
+  flipY: obj.flipY,
+  opacity: obj.opacity,
+  skewX: obj.skewX,
+  skewY: obj.skewY,
+});
+
+// Fabric options restoring an element's transform exactly
+export const getTransformProps = (element: ElementTransform) => ({
+  left: element.x,
+  top: element.y,
+  width: element.width,
+  height: element.height,
+  scaleX: element.scaleX,
+  scaleY: element.scaleY,
+  angle: element.angle,
+  originX: element.originX,
+  originY: element.originY,
+  flipX: element.flipX,
+  flipY: element.flipY,
+  opacity: element.opacity,
+  skewX: element.skewX,
+  skewY: element.skewY,
+});
+
+// Only set flags are stored, so unrestricted elements serialise without `permissions`
+export const normalizePermissions = (permissions?: ElementPermissions): ElementPermissions | undefined => {
+  const set = Object.entries(permissions ?? {}).filter(([, value]) => value === true);
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+};
+
+// Only set axes are stored, so elements that just scale along serialise without `constraints`
+export const normalizeConstraints = (constraints?: ElementConstraints): ElementConstraints | undefined => {
+  const set = Object.entries(constraints ?? {}).filter(([, value]) => value !== undefined);
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+};
+
+// Optional layout fields may be present but undefined; those should not override defaults
+const stripUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+
+const colorOf = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+const elementIdAt = (index: number) => `element_${index + 1}`;
+
+const SELECTION_TRANSFORM_KEYS = ['angle', 'flipX', 'flipY', 'left', 'top', 'scaleX', 'scaleY', 'skewX', 'skewY'] as const;
+
+// Objects in a multi-selection store their transform relative to it; like fabric's own
+// toObject, serialise them as they will be once the selection is dissolved
+const withCanvasTransform = <T>(obj: FabricObject, fn: () => T): T => {
+  const { group } = obj;
+  if (!(group instanceof ActiveSelection)) return fn();
+  const original = Object.fromEntries(SELECTION_TRANSFORM_KEYS.map((key) => [key, obj[key]]));
+  util.addTransformToObject(obj, group.calcOwnMatrix());
+  try {
+    return fn();
+  } finally {
+    obj.set(original);
+  }
+};
+
+// Element id of the slot a photo fills, matching the id the slot serialises with
+const getSlotElementId = (meta: EditorObjectMeta) => {
+  const index = meta.slot?.canvas?.getObjects().indexOf(meta.slot) ?? -1;
+  return index >= 0 ? elementIdAt(index) : undefined;
+};
+
+/**
+ * Serialises a canvas object into a layout element. Loading the element back with
+ * createObjectFromElement and serialising again yields an identical element.
+ */
+export const serializeCanvasObject = (object: FabricObject, index: number, urlMaps: AssetUrlMaps = {}) =>
+  withCanvasTransform(object, () => serializeObject(object, elementIdAt(index), urlMaps));
+
+const serializeObject = (
+  object: FabricObject,
+  id: string,
+  urlMaps: AssetUrlMaps
+): LayoutElement | null => {
+  const { imageUrls = {}, videoUrls = {} } = urlMaps;
+  const obj = object;
+  const meta = object as EditorObject;
+  const permissions = normalizePermissions(meta.permissions);
+  const constraints = normalizeConstraints(meta.constraints);
+  const base = {
+    id,
+    ...getObjectTransform(obj),
+    ...(permissions ? { permissions } : {}),
+    ...(constraints ? { constraints } : {}),
+  };
+
+  if (obj instanceof Group) {
+    return {
+      ...base,
+      type: 'group',
+      children: obj
+        .getObjects()
+        .map((child, childIndex) => serializeObject(child, `${id}_${childIndex + 1}`, urlMaps))
+        .filter((element): element is LayoutElement => element !== null),
+    };
+  }
+
+  if (obj instanceof Textbox) {
+    return {
+      ...base,
+      type: 'textbox',
+      text: obj.text || '',
+      fontSize: obj.fontSize,
+      fontFamily: obj.fontFamily,
+      color: colorOf(obj.fill, '#000000'),
+      ...getTextStyle(obj),
+      autoFit: (obj as FittedTextbox).autoFit ?? null,
+    };
+  }
+
+  // Checked before Rect, which SlotPlaceholder extends
+  if (obj instanceof SlotPlaceholder) {
+    return {
+      ...base,
+      type: 'slot',
+      name: obj.slotName,
+      aspectRatio: obj.aspectRatio,
+      fit: obj.fit,
+    };
+  }
+
+  if (obj instanceof Circle) {
+    return {
+      ...base,
+      type: 'circle',
+      fill: colorOf(obj.fill, '#ffffff'),
+      strokeColor: colorOf(obj.stroke, '#000000'),
+      strokeWidth: obj.strokeWidth ?? 1,
+      radius: obj.radius,
+    };
+  }
+
+  if (obj instanceof Rect) {
+    return {
+      ...base,
+      type: 'rect',
+      fill: colorOf(obj.fill, '#ffffff'),
+      strokeColor: colorOf(obj.stroke, '#000000'),
+      strokeWidth: obj.strokeWidth ?? 1,
+      ...(obj.rx ? { cornerRadius: obj.rx } : {}),
+    };
+  }
+
+  if (obj instanceof FabricImage) {
+    if (meta.isVideo) {
+      return {
+        ...base,
+        type: 'video',
+        videoUrl: (meta.videoId && videoUrls[meta.videoId]) || meta.videoUrl || '',
+        duration: meta.videoDuration || 0,
+        originalFileName: meta.originalFileName,
+      };
+    }
+    const slotId = getSlotElementId(meta);
+    return {
+      ...base,
+      type: 'image',
+      imageUrl: (meta.imageId && imageUrls[meta.imageId]) || meta.imageUrl || '',
+      ...(slotId ? { slotId } : {}),
+    };
+  }
+
+  return null;
+};
+
+// Captures the first frame of a video into a fabric image that keeps a handle on the <video>
+const loadVideoFrame = (videoUrl: string) =>
+  new Promise<{ img: FabricImage; video: HTMLVideoElement }>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.loop = false;
+    video.preload = 'auto';
+
+    video.onerror = () => reject(new Error(`Failed to load video: ${videoUrl}`));
+    video.onloadeddata = () => {
+      const videoCanvas = document.createElement('canvas');
+      videoCanvas.width = video.videoWidth || 400;
+      videoCanvas.height = video.videoHeight || 300;
+      videoCanvas.getContext('2d')?.drawImage(video, 0, 0);
+
+      FabricImage.fromURL(videoCanvas.toDataURL(), { crossOrigin: 'anonymous' })
+        .then((img) => resolve({ img, video }))
+        .catch(reject);
+    };
+    video.src = videoUrl;
+  });
+
+// Scale an asset so it covers the stored size even if its natural size differs
+const fitImageToElement = (img: FabricImage, element: ElementTransform) => {
+  const naturalWidth = img.width || 1;
+  const naturalHeight = img.height || 1;
+  img.set({
+    ...getTransformProps(element),
+    width: naturalWidth,
+    height: naturalHeight,
+    scaleX: element.scaleX * ((element.width || naturalWidth) / naturalWidth),
+    scaleY: element.scaleY * ((element.height || naturalHeight) / naturalHeight),
+  });
+};
+
+// Keeps the stored group size and child positions while a group is rebuilt
+class FixedLayoutManager extends LayoutManager {
+  performLayout() {}
+}
+
+const buildObjectFromElement = async (element: LayoutElement): Promise<EditorObject> => {
+  switch (element.type) {
+    case 'textbox':
+      return new Textbox(element.text, {
+        ...getTransformProps(element),
+        fontSize: element.fontSize,
+        fill: element.color,
+        fontFamily: element.fontFamily,
+        splitByGrapheme: false,
+        editable: true,
+        ...getTextStyleProps({ ...DEFAULT_TEXT_STYLE, ...stripUndefined(element) }),
+        autoFit: element.autoFit ?? null,
+      });
+
+    case 'rect':
+      return new Rect({
+        ...getTransformProps(element),
+        fill: element.fill,
+        stroke: element.strokeColor,
+        strokeWidth: element.strokeWidth,
+        rx: element.cornerRadius ?? 0,
+        ry: element.cornerRadius ?? 0,
+      });
+
+    case 'circle':
+      return new Circle({
+        ...getTransformProps(element),
+        fill: element.fill,
+        radius: element.radius,
+        stroke: element.strokeColor,
+        strokeWidth: element.strokeWidth,
+      });
+
+    case 'slot':
+      return new SlotPlaceholder({
+        ...getTransformProps(element),
+        slotName: element.name,
+        aspectRatio: element.aspectRatio,
+        fit: element.fit,
+      });
+
+    case 'image': {
+      const img: FabricImage & EditorObjectMeta = await FabricImage
+        .fromURL(element.imageUrl, { crossOrigin: 'anonymous' })
+        .catch(() => {
+          throw new Error(`Failed to load image: ${element.imageUrl}`);
+        });
+      fitImageToElement(img, element);
+      img.imageUrl = element.imageUrl;
+      return img;
+    }
+
+    case 'video': {
+      const { img, video } = await loadVideoFrame(element.videoUrl);
+      const videoObject: FabricImage & EditorObjectMeta = img;
+      fitImageToElement(videoObject, element);
+      videoObject.isVideo = true;
+      videoObject.videoDuration = element.duration;
+      videoObject.videoUrl = element.videoUrl;
+      videoObject.originalFileName = element.originalFileName;
+      videoObject.videoElement = video;
+      return videoObject;
+    }
+
+    case 'group': {
+      const children = await Promise.all(element.children.map(createObjectFromElement));
+      const group = new Group(children, {
+        ...getTransformProps(element),
+        layoutManager: new FixedLayoutManager(),
+      });
+      // Resize to fit again from here on, as groups made in the editor do
+      group.layoutManager = new LayoutManager();
+      group.layoutManager.subscribeTargets({ target: group, targets: children });
+      group.setCoords();
+      return group;
+    }
+  }
+};
+
+/**
+ * Recreates a fabric object from a layout element with its full transform.
+ * Rejects when a referenced image or video cannot be loaded.
+ */
+export const createObjectFromElement = async (element: LayoutElement): Promise<EditorObject> => {
+  const obj = await buildObjectFromElement(element);
+  obj.permissions = normalizePermissions(element.permissions);
+  obj.constraints = normalizeConstraints(element.constraints);
+  return obj;
+};
@@ -0,0 +1,94 @@
+import { Canvas as FabricCanvas, FabricObject, Point, Rect, Textbox } from "fabric";
+import { captureTransform, createBatchCommand, createPropertyCommand, createTransformCommand, HistoryCommand } from "./history";
+import { isSlotPlaceholder } from "./slots";
+
+/**
+ * Position and size as the inspector shows them, in canvas units. `x`/`y` are the
+ * object's top-left corner (turning with it) and `width`/`height` its scaled size
+ * without stroke.
+ */
+export interface ObjectGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+}
+
+export const getObjectGeometry = (obj: FabricObject): ObjectGeometry => {
+  const corner = obj.getPointByOrigin('left', 'top');
+  return {
+    x: corner.x,
+    y: corner.y,
+    width: obj.width * obj.scaleX,
+    height: obj.height * obj.scaleY,
+    angle: obj.angle,
+  };
+};
+
+// Text reflows to a new width instead of stretching, so its height follows the text
+export const hasFixedHeight = (obj: FabricObject) => obj instanceof Textbox;
+
+// Plain rectangles; photo slots are rectangles too but always square-cornered
+export const hasCornerRadius = (obj: FabricObject): obj is Rect => obj instanceof Rect && !isSlotPlaceholder(obj);
+
+/**
+ * Moves, resizes or rotates an object, or a whole multi-selection. The top-left corner
+ * stays put unless x or y change. Returns the undo step.
+ */
+export const setObjectGeometry = (
+  canvas: FabricCanvas,
+  obj: FabricObject,
+  changes: Partial<ObjectGeometry>,
+  label: string
+): HistoryCommand => {
+  const before = captureTransform(obj);
+  const current = getObjectGeometry(obj);
+
+  if (changes.angle !== undefined) obj.rotate(changes.angle);
+  if (changes.width !== undefined && changes.width > 0) {
+    if (obj instanceof Textbox) {
+      obj.set({ width: changes.width / obj.scaleX });
+      obj.initDimensions();
+    } else {
+      obj.set({ scaleX: changes.width / obj.width });
+    }
+  }
+  if (changes.height !== undefined && changes.height > 0 && !hasFixedHeight(obj)) {
+    obj.set({ scaleY: changes.height / obj.height });
+  }
+  obj.setPositionByOrigin(new Point(changes.x ?? current.x, changes.y ?? current.y), 'left', 'top');
+  obj.setCoords();
+  canvas.requestRenderAll();
+  return createTransformCommand(canvas, before, captureTransform(obj), label);
+};
+
+/** Mirrors an object, or a whole multi-selection, in place. Returns the undo step */
+export const flipObject = (canvas: FabricCanvas, obj: FabricObject, axis: 'x' | 'y'): HistoryCommand => {
+  const before = captureTransform(obj);
+  if (axis === 'x') {
+    obj.set({ flipX: !obj.flipX });
+  } else {
+    obj.set({ flipY: !obj.flipY });
+  }
+  obj.setCoords();
+  canvas.requestRenderAll();
+  return createTransformCommand(canvas, before, captureTransform(obj), axis === 'x' ? 'Flip horizontal' : 'Flip vertical');
+};
+
+/** Sets properties, worked out for each object, on all of them as one undo step */
+export const setObjectsProperties = (
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  props: (obj: FabricObject) => Record<string, unknown>,
+  label: string
+): HistoryCommand => {
+  const commands = objects.map((obj) => {
+    const after = props(obj);
+    const before = Object.fromEntries(Object.keys(after).map((key) => [key, obj.get(key)]));
+    obj.set(after);
+    return createPropertyCommand(canvas, obj, before, after, label);
+  });
+  canvas.requestRenderAll();
+  return createBatchCommand(label, commands);
+};
@@ -0,0 +1,68 @@
+import { Canvas as FabricCanvas, FabricObject, Group } from "fabric";
+import { getNestedObjects } from "./fabricLayout";
+import type { HistoryCommand } from "./history";
+import { selectObjects } from "./selection";
+import { isSlotPlaceholder } from "./slots";
+
+/**
+ * Photo slots and their photos stay top-level so they can be found and clipped, and
+ * videos so playback and video export can reach them.
+ */
+export const canGroupObject = (obj: FabricObject) =>
+  getNestedObjects(obj).every((nested) => !isSlotPlaceholder(nested) && !nested.isVideo && !nested.slot);
+
+// Puts the children back in the group, which takes the place of the topmost of them
+const join = (canvas: FabricCanvas, group: Group, children: FabricObject[], index: number) => {
+  canvas.discardActiveObject();
+  canvas.remove(...children);
+  group.add(...children);
+  canvas.insertAt(index, group);
+  canvas.setActiveObject(group);
+  canvas.requestRenderAll();
+};
+
+// Dissolves the group into its children, which take its place in the stack
+const split = (canvas: FabricCanvas, group: Group, index: number) => {
+  canvas.discardActiveObject();
+  const children = group.removeAll();
+  canvas.remove(group);
+  canvas.insertAt(index, ...children);
+  selectObjects(canvas, children);
+};
+
+/**
+ * Groups the objects in their stacking order and selects the group, which sits where
+ * the topmost object was. Returns the undo step.
+ */
+export const groupObjects = (canvas: FabricCanvas, objects: FabricObject[]): HistoryCommand => {
+  const stack = canvas.getObjects();
+  const children = [...objects].sort((a, b) => stack.indexOf(a) - stack.indexOf(b));
+  const positions = children.map((child) => stack.indexOf(child));
+  const index = positions[positions.length - 1] - (children.length - 1);
+  const group = new Group();
+  join(canvas, group, children, index);
+
+  return {
+    label: 'Group',
+    undo: () => {
+      split(canvas, group, index);
+      // Back to the exact layers they came from, which need not have been adjacent
+      children.forEach((child, i) => canvas.moveObjectTo(child, positions[i]));
+      canvas.requestRenderAll();
+    },
+    redo: () => join(canvas, group, children, index),
+  };
+};
+
+/** Replaces a group with its objects, selected in its place. Returns the undo step */
+export const ungroupObject = (canvas: FabricCanvas, group: Group): HistoryCommand => {
+  const index = canvas.getObjects().indexOf(group);
+  const children = group.getObjects();
+  split(canvas, group, index);
+
+  return {
+    label: 'Ungroup',
+    undo: () => join(canvas, group, children, index),
+    redo: () => split(canvas, group, index),
+  };
+};
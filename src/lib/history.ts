@@ -0,0 +1,200 @@
+import { ActiveSelection, Canvas as FabricCanvas, FabricObject, TMat2D, util } from "fabric";
+
+export const DEFAULT_HISTORY_DEPTH = 50;
+
+// Mergeable commands only collapse when pushed in quick succession
+const MERGE_WINDOW_MS = 1000;
+
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+  /** Consecutive commands with the same key collapse into one step (e.g. dragging a colour picker) */
+  mergeKey?: string;
+}
+
+/**
+ * Bounded undo/redo stack. Pushing a new command clears the redo branch; the oldest
+ * entries are dropped once `depth` is exceeded.
+ */
+export class CommandHistory {
+  private past: HistoryCommand[] = [];
+  private future: HistoryCommand[] = [];
+  private lastPushAt = 0;
+
+  constructor(private depth: number = DEFAULT_HISTORY_DEPTH) {}
+
+  get canUndo() {
+    return this.past.length > 0;
+  }
+
+  get canRedo() {
+    return this.future.length > 0;
+  }
+
+  get undoLabel() {
+    return this.past[this.past.length - 1]?.label;
+  }
+
+  get redoLabel() {
+    return this.future[this.future.length - 1]?.label;
+  }
+
+  setDepth(depth: number) {
+    this.depth = Math.max(1, depth);
+    this.trim();
+  }
+
+  push(command: HistoryCommand) {
+    const last = this.past[this.past.length - 1];
+    const now = Date.now();
+    const withinWindow = now - this.lastPushAt < MERGE_WINDOW_MS;
+    this.lastPushAt = now;
+    if (command.mergeKey && last?.mergeKey === command.mergeKey && this.future.length === 0 && withinWindow) {
+      // Keep the oldest undo so the merged step reverts to the state before the first change
+      this.past[this.past.length - 1] = { ...command, undo: last.undo };
+      return;
+    }
+    this.past.push(command);
+    this.future = [];
+    this.trim();
+  }
+
+  undo() {
+    const command = this.past.pop();
+    if (!command) return null;
+    command.undo();
+    this.future.push(command);
+    return command;
+  }
+
+  redo() {
+    const command = this.future.pop();
+    if (!command) return null;
+    command.redo();
+    this.past.push(command);
+    return command;
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+
+  private trim() {
+    if (this.past.length > this.depth) {
+      this.past.splice(0, this.past.length - this.depth);
+    }
+  }
+}
+
+const TRANSFORM_KEYS = [
+  'left', 'top', 'width', 'height', 'scaleX', 'scaleY', 'angle',
+  'skewX', 'skewY', 'flipX', 'flipY', 'originX', 'originY',
+] as const;
+
+/**
+ * Snapshot of an object's geometry. Objects inside an ActiveSelection store their
+ * absolute matrix, since their own left/top are relative to the selection.
+ */
+export type TransformSnapshot =
+  | { kind: 'object'; target: FabricObject; props: Partial<Record<typeof TRANSFORM_KEYS[number], unknown>> }
+  | { kind: 'selection'; target: ActiveSelection; entries: { obj: FabricObject; matrix: TMat2D }[] };
+
+export const captureTransform = (target: FabricObject): TransformSnapshot => {
+  if (target instanceof ActiveSelection) {
+    return {
+      kind: 'selection',
+      target,
+      entries: target.getObjects().map((obj) => ({ obj, matrix: obj.calcTransformMatrix() })),
+    };
+  }
+  const props: Partial<Record<typeof TRANSFORM_KEYS[number], unknown>> = {};
+  TRANSFORM_KEYS.forEach((key) => {
+    props[key] = target[key];
+  });
+  return { kind: 'object', target, props };
+};
+
+const applyTransform = (canvas: FabricCanvas, snapshot: TransformSnapshot) => {
+  if (snapshot.kind === 'selection') {
+    // Dissolve the selection first so children are back in canvas coordinates
+    canvas.discardActiveObject();
+    snapshot.entries.forEach(({ obj, matrix }) => {
+      util.applyTransformToObject(obj, matrix);
+      obj.setCoords();
+    });
+  } else {
+    // Stored props are canvas coordinates, which a multi-selection would offset
+    if (snapshot.target.group instanceof ActiveSelection) canvas.discardActiveObject();
+    snapshot.target.set(snapshot.props);
+    snapshot.target.setCoords();
+  }
+  canvas.requestRenderAll();
+};
+
+export const createTransformCommand = (
+  canvas: FabricCanvas,
+  before: TransformSnapshot,
+  after: TransformSnapshot,
+  label = 'Transform'
+): HistoryCommand => ({
+  label,
+  undo: () => applyTransform(canvas, before),
+  redo: () => applyTransform(canvas, after),
+});
+
+// Several commands applied and undone as one step, e.g. aligning a multi-selection
+export const createBatchCommand = (label: string, commands: HistoryCommand[]): HistoryCommand => {
+  const mergeKeys = commands.map((command) => command.mergeKey);
+  return {
+    label,
+    mergeKey: mergeKeys.every(Boolean) ? mergeKeys.join('|') : undefined,
+    undo: () => [...commands].reverse().forEach((command) => command.undo()),
+    redo: () => commands.forEach((command) => command.redo()),
+  };
+};
+
+// Stable per-object ids so merge keys never join edits on different objects
+const objectKeys = new WeakMap<FabricObject, number>();
+let nextObjectKey = 1;
+export const getObjectKey = (obj: FabricObject) => {
+  if (!objectKeys.has(obj)) objectKeys.set(obj, nextObjectKey++);
+  return objectKeys.get(obj);
+};
+
+export const createPropertyCommand = (
+  canvas: FabricCanvas,
+  target: FabricObject,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  label: string
+): HistoryCommand => {
+  const apply = (props: Record<string, unknown>) => {
+    target.set(props);
+    target.setCoords();
+    canvas.requestRenderAll();
+  };
+  return {
+    label,
+    mergeKey: `${getObjectKey(target)}:${Object.keys(after).sort().join(',')}`,
+    undo: () => apply(before),
+    redo: () => apply(after),
+  };
+};
+
+// Restores a full stacking order, bottom to top
+export const applyObjectOrder = (canvas: FabricCanvas, order: FabricObject[]) => {
+  order.forEach((obj, index) => canvas.moveObjectTo(obj, index));
+  canvas.requestRenderAll();
+};
+
+export const createReorderCommand = (
+  canvas: FabricCanvas,
+  before: FabricObject[],
+  after: FabricObject[]
+): HistoryCommand => ({
+  label: 'Reorder layers',
+  undo: () => applyObjectOrder(canvas, before),
+  redo: () => applyObjectOrder(canvas, after),
+});
@@ -0,0 +1,259 @@
+import { z } from "zod";
+
+export const LAYOUT_SCHEMA_VERSION = 3;
+
+const originXSchema = z.union([z.enum(['left', 'center', 'right']), z.number()]);
+const originYSchema = z.union([z.enum(['top', 'center', 'bottom']), z.number()]);
+
+/**
+ * Full fabric transform of an element. `x`/`y` are the object's left/top, i.e. the
+ * position of its origin point, and `width`/`height` are the unscaled object size.
+ */
+export const elementTransformSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  scaleX: z.number(),
+  scaleY: z.number(),
+  angle: z.number(),
+  originX: originXSchema,
+  originY: originYSchema,
+  flipX: z.boolean(),
+  flipY: z.boolean(),
+  opacity: z.number().min(0).max(1),
+  skewX: z.number(),
+  skewY: z.number(),
+});
+
+/**
+ * What end users may do with an element in MemeEditor. Omitted flags are false, and
+ * elements without restrictions omit `permissions` entirely.
+ */
+export const elementPermissionsSchema = z.object({
+  /** Cannot be selected, moved, restyled or deleted */
+  locked: z.boolean().optional(),
+  /** Can be selected and restyled, but not moved, resized, rotated or deleted */
+  positionLocked: z.boolean().optional(),
+  /** Text boxes only: the wording can change, nothing else */
+  textOnly: z.boolean().optional(),
+  /** Left out of the Elements list */
+  hiddenFromLayers: z.boolean().optional(),
+});
+
+/**
+ * How an element follows the canvas when the template is resized to another size.
+ * Omitted axes keep the element's relative position; elements without rules omit
+ * `constraints` entirely.
+ */
+export const elementConstraintsSchema = z.object({
+  horizontal: z.enum(['left', 'center', 'right', 'stretch']).optional(),
+  vertical: z.enum(['top', 'center', 'bottom', 'stretch']).optional(),
+});
+
+const baseElementSchema = elementTransformSchema.extend({
+  id: z.string(),
+  permissions: elementPermissionsSchema.optional(),
+  constraints: elementConstraintsSchema.optional(),
+});
+
+export const textAlignSchema = z.enum(['left', 'center', 'right', 'justify']);
+
+const textShadowSchema = z.object({
+  color: z.string(),
+  blur: z.number().nonnegative(),
+  offsetX: z.number(),
+  offsetY: z.number(),
+});
+
+/**
+ * Font size range for text that resizes to fill its box. The box is the element's
+ * width and `boxHeight`, both unscaled.
+ */
+const textAutoFitSchema = z.object({
+  minFontSize: z.number().positive(),
+  maxFontSize: z.number().positive(),
+  boxHeight: z.number().positive(),
+}).refine((fit) => fit.minFontSize <= fit.maxFontSize, 'minFontSize must not exceed maxFontSize');
+
+const textboxElementSchema = baseElementSchema.extend({
+  type: z.literal('textbox'),
+  text: z.string(),
+  fontSize: z.number().positive(),
+  fontFamily: z.string(),
+  color: z.string(),
+  // Optional styling; text saved before it existed omits these and gets fabric's defaults
+  strokeColor: z.string().nullable().optional(),
+  strokeWidth: z.number().nonnegative().optional(),
+  shadow: textShadowSchema.nullable().optional(),
+  textAlign: textAlignSchema.optional(),
+  lineHeight: z.number().positive().optional(),
+  /** Letter spacing in thousandths of an em, as fabric's charSpacing */
+  charSpacing: z.number().optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  /** Text is stored in capitals and typing stays in capitals */
+  uppercase: z.boolean().optional(),
+  highlightColor: z.string().nullable().optional(),
+  autoFit: textAutoFitSchema.nullable().optional(),
+});
+
+const rectElementSchema = baseElementSchema.extend({
+  type: z.literal('rect'),
+  fill: z.string(),
+  strokeColor: z.string(),
+  strokeWidth: z.number().nonnegative(),
+  /** Unscaled, like width and height; optional because rects saved before it existed omit it */
+  cornerRadius: z.number().nonnegative().optional(),
+});
+
+const circleElementSchema = baseElementSchema.extend({
+  type: z.literal('circle'),
+  fill: z.string(),
+  strokeColor: z.string(),
+  strokeWidth: z.number().nonnegative(),
+  radius: z.number().positive(),
+});
+
+const imageElementSchema = baseElementSchema.extend({
+  type: z.literal('image'),
+  imageUrl: z.string().min(1, 'image has no uploaded URL'),
+  /** Id of the slot element this photo fills; only memes in progress store one */
+  slotId: z.string().optional(),
+});
+
+const videoElementSchema = baseElementSchema.extend({
+  type: z.literal('video'),
+  videoUrl: z.string().min(1, 'video has no uploaded URL'),
+  duration: z.number().nonnegative(),
+  originalFileName: z.string().optional(),
+});
+
+export const slotFitSchema = z.enum(['cover', 'contain']);
+
+/**
+ * Placeholder the end user fills with their own photo. The transform is the clip
+ * area; `aspectRatio` (width / height) is locked while resizing unless null.
+ */
+const slotElementSchema = baseElementSchema.extend({
+  type: z.literal('slot'),
+  name: z.string().min(1, 'slot has no name'),
+  aspectRatio: z.number().positive().nullable(),
+  fit: slotFitSchema,
+});
+
+type LeafElement =
+  | z.infer<typeof textboxElementSchema>
+  | z.infer<typeof rectElementSchema>
+  | z.infer<typeof circleElementSchema>
+  | z.infer<typeof imageElementSchema>
+  | z.infer<typeof videoElementSchema>
+  | z.infer<typeof slotElementSchema>;
+
+const groupFieldsSchema = baseElementSchema.extend({
+  type: z.literal('group'),
+});
+
+// Children are typed by hand because the schema refers to itself
+export type GroupElement = z.infer<typeof groupFieldsSchema> & { children?: LayoutElement[] };
+
+export type LayoutElement = LeafElement | GroupElement;
+
+/**
+ * Elements moved and transformed as one. Each child's transform is relative to the
+ * group's centre, as fabric stores it, and children are listed bottom to top.
+ * Photo slots and videos are never grouped.
+ */
+const groupElementSchema = groupFieldsSchema.extend({
+  children: z.lazy((): z.ZodType<LayoutElement[]> => z.array(layoutElementSchema)),
+});
+
+export const layoutElementSchema = z.discriminatedUnion('type', [
+  textboxElementSchema,
+  rectElementSchema,
+  circleElementSchema,
+  imageElementSchema,
+  videoElementSchema,
+  slotElementSchema,
+  groupElementSchema,
+]);
+
+export const layoutDefinitionSchema = z.object({
+  schemaVersion: z.literal(LAYOUT_SCHEMA_VERSION),
+  /**
+   * `width`/`height` are the output resolution exports come out at. Element geometry is
+   * in these pixels; the editors zoom the view to fit the screen.
+   */
+  canvas: z.object({
+    width: z.number().positive(),
+    height: z.number().positive(),
+    backgroundColor: z.string(),
+    backgroundImage: z.string().nullable(),
+  }),
+  elements: z.array(layoutElementSchema),
+  maxDuration: z.number().nonnegative().optional(),
+});
+
+export type ElementTransform = z.infer<typeof elementTransformSchema>;
+export type LayoutElementType = LayoutElement['type'];
+export type SlotFit = z.infer<typeof slotFitSchema>;
+export type ElementPermissions = z.infer<typeof elementPermissionsSchema>;
+export type ElementConstraints = z.infer<typeof elementConstraintsSchema>;
+export type TextAlign = z.infer<typeof textAlignSchema>;
+export type TextShadow = z.infer<typeof textShadowSchema>;
+export type TextAutoFit = z.infer<typeof textAutoFitSchema>;
+export type LayoutDefinition = z.infer<typeof layoutDefinitionSchema>;
+
+// Every element in a layout, with grouped elements listed after their group
+export const flattenElements = (elements: LayoutElement[]): LayoutElement[] =>
+  elements.flatMap((element) => (element.type === 'group' ? [element, ...flattenElements(element.children)] : [element]));
+
+export type LayoutParseResult =
+  | { success: true; data: LayoutDefinition }
+  | { success: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeIssue = (issue: z.ZodIssue, input: unknown): string => {
+  const [root, index, ...rest] = issue.path;
+
+  if (root === 'elements' && typeof index === 'number') {
+    const element = isRecord(input) && Array.isArray(input.elements) ? input.elements[index] : undefined;
+    const type = isRecord(element) && typeof element.type === 'string' ? element.type : 'unknown';
+    const label = `Element ${index + 1} (${type})`;
+
+    if (issue.code === 'invalid_union_discriminator') {
+      return `${label}: unsupported element type`;
+    }
+    return rest.length > 0 ? `${label}: ${rest.join('.')} - ${issue.message}` : `${label}: ${issue.message}`;
+  }
+
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+};
+
+/**
+ * Validates a layout in the current format and returns either the typed layout
+ * or a list of human readable problems, one per failing field. Stored rows may use
+ * older formats; load those through loadLayoutDefinition in layoutMigrations.
+ */
+export const parseLayoutDefinition = (input: unknown): LayoutParseResult => {
+  const result = layoutDefinitionSchema.safeParse(input);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => describeIssue(issue, input)),
+  };
+};
+
+// Short summary suitable for a toast description
+export const formatLayoutErrors = (errors: string[], limit = 5): string => {
+  const shown = errors.slice(0, limit);
+  const remaining = errors.length - shown.length;
+  return remaining > 0 ? `${shown.join('\n')}\n…and ${remaining} more` : shown.join('\n');
+};
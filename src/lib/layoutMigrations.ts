@@ -0,0 +1,353 @@
+import { LAYOUT_SCHEMA_VERSION, LayoutDefinition, LayoutElement, LayoutParseResult, parseLayoutDefinition } from "./layout";
+import { CanvasSize, DEFAULT_OUTPUT_SIZES } from "./viewport";
+
+/**
+ * Historical shapes of `templates.layout_definition`:
+ * - `current`: `{ schemaVersion, canvas, elements }` at the latest version
+ * - `versioned`: same element-list format at an older schemaVersion
+ * - `unversioned`: element-list format written by TemplateCreator before schemaVersion existed
+ * - `fabric-json`: `{ canvas: fabric.toJSON(), imageBackground | videoBackground, dimensions }`,
+ *   usually stored as a JSON string, written by the removed TemplateEditor.exportTemplate
+ * - `legacy-url`: a single background `url`, from the first templates table
+ */
+export type LayoutFormat = 'current' | 'versioned' | 'unversioned' | 'fabric-json' | 'legacy-url' | 'unknown';
+
+export interface LayoutMigrationContext {
+  type: 'photo' | 'video' | string;
+}
+
+export interface LayoutMigrationResult {
+  format: LayoutFormat;
+  layout: LayoutDefinition;
+  /** True when the stored value differs from the returned layout and should be rewritten */
+  migrated: boolean;
+  warnings: string[];
+}
+
+export class LayoutMigrationError extends Error {
+  constructor(message: string, public readonly errors: string[] = [message]) {
+    super(message);
+    this.name = 'LayoutMigrationError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const asString = (value: unknown, fallback: string) =>
+  typeof value === 'string' ? value : fallback;
+
+const isUrl = (value: unknown): value is string =>
+  typeof value === 'string' && /^(https?:|data:image\/)/.test(value);
+
+// Formats older than v3 sized the canvas for the screen, in these on-screen pixels
+const SCREEN_SCHEMA_VERSION = 2;
+
+// Matches the fallback sizes MemeEditor used before layouts stored their own canvas
+const defaultCanvasSize = (type: string) =>
+  type === 'video' ? { width: 400, height: 711 } : { width: 400, height: 400 };
+
+const decode = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') return raw;
+  const trimmed = raw.trim();
+  if (isUrl(trimmed)) return { url: trimmed };
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new LayoutMigrationError('layout_definition is a string but not valid JSON');
+  }
+};
+
+export const detectLayoutFormat = (raw: unknown): LayoutFormat => {
+  let value: unknown;
+  try {
+    value = decode(raw);
+  } catch {
+    return 'unknown';
+  }
+  if (!isRecord(value)) return 'unknown';
+
+  if (typeof value.schemaVersion === 'number') {
+    return value.schemaVersion === LAYOUT_SCHEMA_VERSION ? 'current' : 'versioned';
+  }
+  if (Array.isArray(value.elements)) return 'unversioned';
+  if (isRecord(value.canvas) && Array.isArray(value.canvas.objects)) return 'fabric-json';
+  if (isUrl(value.url)) return 'legacy-url';
+  return 'unknown';
+};
+
+const DEFAULT_TRANSFORM = {
+  scaleX: 1,
+  scaleY: 1,
+  angle: 0,
+  originX: 'left',
+  originY: 'top',
+  flipX: false,
+  flipY: false,
+  opacity: 1,
+  skewX: 0,
+  skewY: 0,
+} as const;
+
+/**
+ * Upgrades from schemaVersion N to N + 1, keyed by N. Add an entry here whenever
+ * LAYOUT_SCHEMA_VERSION is bumped.
+ */
+const VERSION_MIGRATIONS: Record<number, (layout: UnknownRecord) => UnknownRecord> = {
+  // v1 stored axis-aligned bounding boxes; v2 stores the full transform with unscaled sizes
+  1: (layout) => ({
+    ...layout,
+    elements: (Array.isArray(layout.elements) ? layout.elements : []).map((raw) => {
+      if (!isRecord(raw)) return raw;
+      const { originalWidth, originalHeight, ...element } = raw;
+      const width = asNumber(element.width, 0);
+      const height = asNumber(element.height, 0);
+
+      // v1 scaled images and videos from their natural size to the stored box
+      if ((element.type === 'image' || element.type === 'video') && originalWidth && originalHeight) {
+        return {
+          ...element,
+          ...DEFAULT_TRANSFORM,
+          width: asNumber(originalWidth, width),
+          height: asNumber(originalHeight, height),
+          scaleX: width / asNumber(originalWidth, width || 1),
+          scaleY: height / asNumber(originalHeight, height || 1),
+        };
+      }
+      return { ...DEFAULT_TRANSFORM, ...element };
+    }),
+  }),
+  // v2 canvases were the on-screen size; v3 stores the output resolution, so layouts scale up to it
+  2: (layout) => {
+    const canvas = isRecord(layout.canvas) ? layout.canvas : {};
+    const width = asNumber(canvas.width, 400);
+    const height = asNumber(canvas.height, 400);
+    const output = toOutputSize(width, height);
+    const factor = output.width / width;
+    return {
+      ...layout,
+      canvas: { ...canvas, ...output },
+      // Group children are relative to their group, so only top-level elements move
+      elements: (Array.isArray(layout.elements) ? layout.elements : []).map((element) =>
+        isRecord(element)
+          ? {
+              ...element,
+              x: asNumber(element.x, 0) * factor,
+              y: asNumber(element.y, 0) * factor,
+              scaleX: asNumber(element.scaleX, 1) * factor,
+              scaleY: asNumber(element.scaleY, 1) * factor,
+            }
+          : element
+      ),
+    };
+  },
+};
+
+// Short side of output resolutions picked for on-screen canvases that match no standard size
+const OUTPUT_SHORT_SIDE = 1080;
+
+// Export size for a canvas stored at its on-screen size: a standard size with the same aspect ratio, if any
+const toOutputSize = (width: number, height: number): CanvasSize => {
+  const standard = Object.values(DEFAULT_OUTPUT_SIZES).find(
+    (size) => Math.abs(size.width / size.height - width / height) < 0.01
+  );
+  if (standard) return standard;
+  const scale = OUTPUT_SHORT_SIDE / Math.min(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const upgradeVersioned = (layout: UnknownRecord): UnknownRecord => {
+  let current = layout;
+  let version = asNumber(current.schemaVersion, 0);
+  if (version > LAYOUT_SCHEMA_VERSION) {
+    throw new LayoutMigrationError(`schemaVersion ${version} is newer than this app supports`);
+  }
+  while (version < LAYOUT_SCHEMA_VERSION) {
+    const migrate = VERSION_MIGRATIONS[version];
+    if (!migrate) {
+      throw new LayoutMigrationError(`No migration from schemaVersion ${version}`);
+    }
+    current = { ...migrate(current), schemaVersion: version + 1 };
+    version += 1;
+  }
+  return current;
+};
+
+const asOrigin = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T | number =>
+  typeof value === 'number' || allowed.includes(value as T) ? (value as T | number) : fallback;
+
+// Converts one object from fabric's toJSON() output into a layout element
+const convertFabricObject = (obj: UnknownRecord, index: number): LayoutElement | null => {
+  const type = asString(obj.type, '').toLowerCase();
+  const base = {
+    id: `element_${index + 1}`,
+    x: asNumber(obj.left, 0),
+    y: asNumber(obj.top, 0),
+    width: asNumber(obj.width, 0),
+    height: asNumber(obj.height, 0),
+    scaleX: asNumber(obj.scaleX, 1),
+    scaleY: asNumber(obj.scaleY, 1),
+    angle: asNumber(obj.angle, 0),
+    originX: asOrigin(obj.originX, ['left', 'center', 'right'], 'left'),
+    originY: asOrigin(obj.originY, ['top', 'center', 'bottom'], 'top'),
+    flipX: obj.flipX === true,
+    flipY: obj.flipY === true,
+    opacity: asNumber(obj.opacity, 1),
+    skewX: asNumber(obj.skewX, 0),
+    skewY: asNumber(obj.skewY, 0),
+  };
+
+  switch (type) {
+    case 'textbox':
+    case 'i-text':
+    case 'text':
+      return {
+        ...base,
+        type: 'textbox',
+        text: asString(obj.text, ''),
+        fontSize: asNumber(obj.fontSize, 16),
+        fontFamily: asString(obj.fontFamily, 'Arial'),
+        color: asString(obj.fill, '#000000'),
+      };
+    case 'rect':
+      return {
+        ...base,
+        type: 'rect',
+        fill: asString(obj.fill, '#ffffff'),
+        strokeColor: asString(obj.stroke, '#000000'),
+        strokeWidth: asNumber(obj.strokeWidth, 1),
+      };
+    case 'circle':
+      return {
+        ...base,
+        type: 'circle',
+        fill: asString(obj.fill, '#ffffff'),
+        strokeColor: asString(obj.stroke, '#000000'),
+        strokeWidth: asNumber(obj.strokeWidth, 1),
+        radius: asNumber(obj.radius, 50),
+      };
+    case 'image':
+      if (!isUrl(obj.src)) return null;
+      return {
+        ...base,
+        type: 'image',
+        imageUrl: obj.src,
+      };
+    default:
+      return null;
+  }
+};
+
+const migrateFabricJson = (value: UnknownRecord, context: LayoutMigrationContext, warnings: string[]): UnknownRecord => {
+  const fabricCanvas = value.canvas as UnknownRecord;
+  const dimensions = isRecord(value.dimensions) ? value.dimensions : {};
+  const fallback = defaultCanvasSize(context.type);
+
+  // The old TemplateEditor assigned uploaded backgrounds to backgroundColor, so a URL can hide there
+  const background = fabricCanvas.background;
+  const backgroundImage = isUrl(value.imageBackground)
+    ? value.imageBackground
+    : isUrl(background) ? background : null;
+
+  if (value.videoBackground) {
+    warnings.push('Background video was never uploaded and has been dropped');
+  }
+
+  const elements = (fabricCanvas.objects as unknown[]).flatMap((obj, index) => {
+    const element = isRecord(obj) ? convertFabricObject(obj, index) : null;
+    if (!element) {
+      const type = isRecord(obj) ? asString(obj.type, 'unknown') : 'unknown';
+      warnings.push(`Object ${index + 1} (${type}) could not be converted and was skipped`);
+      return [];
+    }
+    return [element];
+  });
+
+  return {
+    schemaVersion: SCREEN_SCHEMA_VERSION,
+    canvas: {
+      width: asNumber(dimensions.width, fallback.width),
+      height: asNumber(dimensions.height, fallback.height),
+      backgroundColor: typeof background === 'string' && !isUrl(background) ? background : '#ffffff',
+      backgroundImage,
+    },
+    elements,
+  };
+};
+
+const migrateLegacyUrl = (value: UnknownRecord, context: LayoutMigrationContext): UnknownRecord => {
+  const { width, height } = defaultCanvasSize(context.type);
+  return {
+    schemaVersion: SCREEN_SCHEMA_VERSION,
+    canvas: {
+      width,
+      height,
+      backgroundColor: '#ffffff',
+      backgroundImage: value.url,
+    },
+    elements: [],
+  };
+};
+
+/**
+ * Detects the stored format of a layout, upgrades it to the current element-list
+ * format and validates the result. Throws LayoutMigrationError when the value cannot
+ * be converted into a valid layout.
+ */
+export const migrateLayoutDefinition = (raw: unknown, context: LayoutMigrationContext): LayoutMigrationResult => {
+  const format = detectLayoutFormat(raw);
+  const warnings: string[] = [];
+  let candidate: UnknownRecord;
+
+  switch (format) {
+    case 'current':
+      candidate = decode(raw) as UnknownRecord;
+      break;
+    case 'versioned':
+      candidate = upgradeVersioned(decode(raw) as UnknownRecord);
+      break;
+    case 'unversioned':
+      candidate = upgradeVersioned({ ...(decode(raw) as UnknownRecord), schemaVersion: 1 });
+      break;
+    case 'fabric-json':
+      candidate = upgradeVersioned(migrateFabricJson(decode(raw) as UnknownRecord, context, warnings));
+      break;
+    case 'legacy-url':
+      candidate = upgradeVersioned(migrateLegacyUrl(decode(raw) as UnknownRecord, context));
+      break;
+    default:
+      throw new LayoutMigrationError('Unrecognised layout_definition format');
+  }
+
+  const result = parseLayoutDefinition(candidate);
+  if (result.success === false) {
+    throw new LayoutMigrationError('Layout failed validation after migration', result.errors);
+  }
+
+  return {
+    format,
+    layout: result.data,
+    migrated: format !== 'current' || typeof raw === 'string',
+    warnings,
+  };
+};
+
+/**
+ * Loads any historical layout format, returning the same shape as parseLayoutDefinition
+ * so callers can surface errors uniformly.
+ */
+export const loadLayoutDefinition = (raw: unknown, context: LayoutMigrationContext): LayoutParseResult => {
+  try {
+    return { success: true, data: migrateLayoutDefinition(raw, context).layout };
+  } catch (error) {
+    if (error instanceof LayoutMigrationError) {
+      return { success: false, errors: error.errors };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,124 @@
+import { Canvas as FabricCanvas, FabricImage } from "fabric";
+import { flattenElements, LayoutDefinition, LayoutElement } from "./layout";
+import { EditorObject, EditorObjectMeta, getNestedObjects, serializeCanvasObject } from "./fabricLayout";
+import { clipPhotoToSlot, isSlotPlaceholder } from "./slots";
+
+/** URL prefix for files that are stored next to a layout instead of being uploaded */
+export const LOCAL_ASSET_PREFIX = 'local-asset:';
+
+export const getLocalAssetId = (url: string) =>
+  url.startsWith(LOCAL_ASSET_PREFIX) ? url.slice(LOCAL_ASSET_PREFIX.length) : null;
+
+const getElementUrl = (element: LayoutElement) => {
+  if (element.type === 'image') return element.imageUrl;
+  if (element.type === 'video') return element.videoUrl;
+  return null;
+};
+
+// Ids of every local file a layout refers to, including grouped elements'
+export const getLocalAssetIds = (layout: LayoutDefinition) =>
+  flattenElements(layout.elements).flatMap((element) => {
+    const url = getElementUrl(element);
+    const assetId = url && getLocalAssetId(url);
+    return assetId ? [assetId] : [];
+  });
+
+/**
+ * Snapshot of a meme in progress as a layout based on its template's. Images and videos
+ * the user added are referenced as `local-asset:<imageId | videoId>`.
+ */
+export const serializeMemeCanvas = (canvas: FabricCanvas, template: LayoutDefinition): LayoutDefinition => {
+  const objects = canvas.getObjects() as EditorObject[];
+  const nested = objects.flatMap(getNestedObjects);
+  const localUrls = (ids: (string | undefined)[]) =>
+    Object.fromEntries(ids.filter(Boolean).map((id) => [id, `${LOCAL_ASSET_PREFIX}${id}`]));
+  const urlMaps = {
+    imageUrls: localUrls(nested.map((obj) => obj.imageId)),
+    videoUrls: localUrls(nested.map((obj) => obj.videoId)),
+  };
+
+  return {
+    ...template,
+    elements: objects
+      .map((obj, index) => serializeCanvasObject(obj, index, urlMaps))
+      .filter((element): element is LayoutElement => element !== null),
+  };
+};
+
+// Rewrites the URL of every image and video element, grouped ones included
+const mapElementUrls = (element: LayoutElement, replace: (url: string) => string): LayoutElement => {
+  if (element.type === 'group') {
+    return { ...element, children: element.children.map((child) => mapElementUrls(child, replace)) };
+  }
+  if (element.type === 'image') return { ...element, imageUrl: replace(element.imageUrl) };
+  if (element.type === 'video') return { ...element, videoUrl: replace(element.videoUrl) };
+  return element;
+};
+
+/** Swaps `local-asset:` URLs for uploaded URLs keyed by asset id; others are kept */
+export const replaceLocalAssets = (layout: LayoutDefinition, urls: Record<string, string>): LayoutDefinition => ({
+  ...layout,
+  elements: layout.elements.map((element) =>
+    mapElementUrls(element, (url) => urls[getLocalAssetId(url) ?? ''] ?? url)
+  ),
+});
+
+/**
+ * Points the element's `local-asset:` URLs at object URLs of their stored files.
+ * `assetIds` maps each object URL back to its asset id, for linkLocalAssets. Throws
+ * when a file is missing.
+ */
+export const resolveLocalAssets = (element: LayoutElement, files: Record<string, File>) => {
+  const assetIds: Record<string, string> = {};
+  const resolved = mapElementUrls(element, (url) => {
+    const assetId = getLocalAssetId(url);
+    if (!assetId) return url;
+    const file = files[assetId];
+    if (!file) throw new Error('A file for an image or video is missing from the draft');
+    const objectUrl = URL.createObjectURL(file);
+    assetIds[objectUrl] = assetId;
+    return objectUrl;
+  });
+  return { element: resolved, assetIds };
+};
+
+/**
+ * Gives the images and videos loaded from resolveLocalAssets' object URLs their asset
+ * ids back as imageId / videoId. Returns their files keyed by asset id.
+ */
+export const linkLocalAssets = (
+  obj: EditorObject,
+  assetIds: Record<string, string>,
+  files: Record<string, File>
+): Record<string, File> => {
+  const linked: Record<string, File> = {};
+  getNestedObjects(obj).forEach((nested) => {
+    const videoAssetId = nested.isVideo && assetIds[nested.videoUrl ?? ''];
+    const imageAssetId = !nested.isVideo && assetIds[nested.imageUrl ?? ''];
+    if (videoAssetId) {
+      nested.videoId = videoAssetId;
+      linked[videoAssetId] = files[videoAssetId];
+    } else if (imageAssetId) {
+      nested.imageId = imageAssetId;
+      nested.originalFileName = files[imageAssetId].name;
+      linked[imageAssetId] = files[imageAssetId];
+    }
+  });
+  return linked;
+};
+
+/**
+ * Clips restored photos back into the slots they filled, keeping their pan and zoom,
+ * and hides the filled placeholders. `objects` maps element ids to the loaded objects.
+ */
+export const linkSlotPhotos = (elements: LayoutElement[], objects: Map<string, EditorObject>) => {
+  elements.forEach((element) => {
+    if (element.type !== 'image' || !element.slotId) return;
+    const photo = objects.get(element.id) as (FabricImage & EditorObjectMeta) | undefined;
+    const slot = objects.get(element.slotId);
+    if (!(photo instanceof FabricImage) || !isSlotPlaceholder(slot)) return;
+    clipPhotoToSlot(photo, slot);
+    photo.slot = slot;
+    slot.set({ visible: false });
+  });
+};
@@ -0,0 +1,121 @@
+import { FabricObject, TBBox } from "fabric";
+import type { ElementConstraints, LayoutDefinition, LayoutElement } from "./layout";
+import { getTransformProps } from "./fabricLayout";
+import type { CanvasSize } from "./viewport";
+
+export type HorizontalConstraint = NonNullable<ElementConstraints['horizontal']>;
+export type VerticalConstraint = NonNullable<ElementConstraints['vertical']>;
+
+// Select value standing for an omitted axis, where the element keeps its relative position
+export const RELATIVE_CONSTRAINT = 'relative';
+
+export const HORIZONTAL_CONSTRAINT_OPTIONS: { value: HorizontalConstraint; label: string }[] = [
+  { value: 'left', label: 'Pin to left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Pin to right' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+export const VERTICAL_CONSTRAINT_OPTIONS: { value: VerticalConstraint; label: string }[] = [
+  { value: 'top', label: 'Pin to top' },
+  { value: 'center', label: 'Center' },
+  { value: 'bottom', label: 'Pin to bottom' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+type Rule = HorizontalConstraint | VerticalConstraint | undefined;
+
+// A stretch of one axis: where the element's bounding box starts and how long it is
+interface Span {
+  start: number;
+  length: number;
+}
+
+/**
+ * Where an element's span goes on a resized axis. Margins and sizes scale by `scale`,
+ * the factor that fits the old canvas into the new one; `stretch` keeps both margins.
+ */
+const placeSpan = (span: Span, rule: Rule, from: number, to: number, scale: number): Span => {
+  const length = span.length * scale;
+  switch (rule) {
+    case 'left':
+    case 'top':
+      return { start: span.start * scale, length };
+    case 'right':
+    case 'bottom':
+      return { start: to - (from - span.start - span.length) * scale - length, length };
+    case 'center':
+      return { start: to / 2 + (span.start + span.length / 2 - from / 2) * scale - length / 2, length };
+    case 'stretch': {
+      const start = span.start * scale;
+      const end = to - (from - span.start - span.length) * scale;
+      return { start, length: Math.max(end - start, 1) };
+    }
+    default:
+      // Keep the centre at the same fraction of the canvas
+      return { start: ((span.start + span.length / 2) / from) * to - length / 2, length };
+  }
+};
+
+// Photos, videos, circles, groups and ratio-locked slots would distort if stretched on one axis
+const keepsAspectRatio = (element: LayoutElement) =>
+  element.type === 'image'
+  || element.type === 'video'
+  || element.type === 'circle'
+  || element.type === 'group'
+  || (element.type === 'slot' && element.aspectRatio !== null);
+
+const getBounds = (element: LayoutElement): TBBox => {
+  const proxy = new FabricObject(getTransformProps(element));
+  proxy.setCoords();
+  return proxy.getBoundingRect();
+};
+
+const resizeElement = (element: LayoutElement, from: CanvasSize, to: CanvasSize): LayoutElement => {
+  const scale = Math.min(to.width / from.width, to.height / from.height);
+  const box = getBounds(element);
+  const { horizontal, vertical } = element.constraints ?? {};
+  const x = placeSpan({ start: box.left, length: box.width }, horizontal, from.width, to.width, scale);
+  const y = placeSpan({ start: box.top, length: box.height }, vertical, from.height, to.height, scale);
+
+  let factorX = box.width > 0 ? x.length / box.width : scale;
+  let factorY = box.height > 0 ? y.length / box.height : scale;
+  if (keepsAspectRatio(element)) {
+    factorX = factorY = Math.min(factorX, factorY);
+  }
+
+  let resized: LayoutElement;
+  if (element.type === 'textbox') {
+    // Text keeps its proportions; stretching widens the box or, with auto-fit, heightens it
+    resized = {
+      ...element,
+      width: element.width * (factorX / scale),
+      scaleX: element.scaleX * scale,
+      scaleY: element.scaleY * scale,
+      autoFit: element.autoFit && { ...element.autoFit, boxHeight: element.autoFit.boxHeight * (factorY / scale) },
+    };
+  } else {
+    resized = { ...element, scaleX: element.scaleX * factorX, scaleY: element.scaleY * factorY };
+  }
+
+  // Centre the resized box in its span; it only falls short when the aspect ratio is kept
+  const bounds = getBounds(resized);
+  return {
+    ...resized,
+    x: resized.x + x.start + (x.length - bounds.width) / 2 - bounds.left,
+    y: resized.y + y.start + (y.length - bounds.height) / 2 - bounds.top,
+  };
+};
+
+/**
+ * Copies a layout onto a canvas of another size. Each top-level element is placed by
+ * its `constraints`; grouped elements move with their group.
+ */
+export const resizeLayout = (layout: LayoutDefinition, size: CanvasSize): LayoutDefinition => {
+  const from = { width: layout.canvas.width, height: layout.canvas.height };
+  return {
+    ...layout,
+    canvas: { ...layout.canvas, width: size.width, height: size.height },
+    elements: layout.elements.map((element) => resizeElement(element, from, size)),
+  };
+};
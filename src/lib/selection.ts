@@ -0,0 +1,53 @@
+import { ActiveSelection, Canvas as FabricCanvas, FabricObject } from "fabric";
+
+// Selects one object, or several as an ActiveSelection
+export const selectObjects = (canvas: FabricCanvas, objects: FabricObject[]) => {
+  canvas.discardActiveObject();
+  if (objects.length === 1) {
+    canvas.setActiveObject(objects[0]);
+  } else if (objects.length > 1) {
+    canvas.setActiveObject(new ActiveSelection(objects, { canvas }));
+  }
+  canvas.requestRenderAll();
+};
+
+/**
+ * Runs `fn` with a multi-object selection dissolved, so its objects report canvas
+ * coordinates instead of ones relative to the selection, then selects them again.
+ */
+export const withDiscardedSelection = <T>(canvas: FabricCanvas, fn: () => T): T => {
+  if (!(canvas.getActiveObject() instanceof ActiveSelection)) return fn();
+  const selected = canvas.getActiveObjects();
+  canvas.discardActiveObject();
+  try {
+    return fn();
+  } finally {
+    selectObjects(canvas, selected);
+  }
+};
+
+export type StackDirection = 'forward' | 'backward';
+
+/**
+ * Moves every selected object one step up or down the stack, past the nearest
+ * unselected object. Selected neighbours keep their relative order. Returns the new
+ * order, bottom to top.
+ */
+export const shiftStackOrder = (order: FabricObject[], selected: FabricObject[], direction: StackDirection) => {
+  const next = [...order];
+  const isSelected = (obj: FabricObject) => selected.includes(obj);
+  const swap = (a: number, b: number) => {
+    [next[a], next[b]] = [next[b], next[a]];
+  };
+
+  if (direction === 'forward') {
+    for (let i = next.length - 2; i >= 0; i--) {
+      if (isSelected(next[i]) && !isSelected(next[i + 1])) swap(i, i + 1);
+    }
+  } else {
+    for (let i = 1; i < next.length; i++) {
+      if (isSelected(next[i]) && !isSelected(next[i - 1])) swap(i, i - 1);
+    }
+  }
+  return next;
+};
@@ -0,0 +1,56 @@
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Label of the modifier used with shortcut letters: ⌘ on macOS, Ctrl elsewhere */
+export const MOD_KEY = isMac ? '⌘' : 'Ctrl';
+
+export const NUDGE_STEP = 1;
+export const LARGE_NUDGE_STEP = 10;
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: { keys: string[]; description: string }[];
+}
+
+// What the cheat sheet lists; the editors' key handlers implement each entry
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: 'Edit',
+    shortcuts: [
+      { keys: ['Delete'], description: 'Delete selection (or Backspace)' },
+      { keys: [MOD_KEY, 'D'], description: 'Duplicate' },
+      { keys: [MOD_KEY, 'C'], description: 'Copy' },
+      { keys: [MOD_KEY, 'V'], description: 'Paste' },
+      { keys: [MOD_KEY, 'Z'], description: 'Undo' },
+      { keys: [MOD_KEY, 'Shift', 'Z'], description: `Redo (or ${MOD_KEY}+Y)` },
+    ],
+  },
+  {
+    title: 'Select',
+    shortcuts: [
+      { keys: [MOD_KEY, 'A'], description: 'Select all' },
+      { keys: ['Esc'], description: 'Deselect' },
+    ],
+  },
+  {
+    title: 'Arrange',
+    shortcuts: [
+      { keys: ['←', '↑', '→', '↓'], description: `Nudge ${NUDGE_STEP}px` },
+      { keys: ['Shift', 'Arrow'], description: `Nudge ${LARGE_NUDGE_STEP}px` },
+      { keys: [']'], description: 'Bring forward' },
+      { keys: ['['], description: 'Send backward' },
+    ],
+  },
+  {
+    title: 'Help',
+    shortcuts: [{ keys: ['?'], description: 'Show keyboard shortcuts' }],
+  },
+];
+
+// Keys typed into form fields are left alone
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+// Keys pressed in an open dialog belong to the dialog, not the canvas behind it
+export const isInDialog = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest('[role="dialog"], [role="alertdialog"]');
@@ -0,0 +1,161 @@
+import { FabricImage, FabricObject, Point, Rect, RectProps } from "fabric";
+import type { SlotFit } from "./layout";
+
+export const SLOT_ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+export const SLOT_FIT_OPTIONS: { label: string; value: SlotFit }[] = [
+  { label: 'Cover (fill and crop)', value: 'cover' },
+  { label: 'Contain (show whole photo)', value: 'contain' },
+];
+
+const SLOT_STROKE = '#64748b';
+const SLOT_HIGHLIGHT_STROKE = '#2563eb';
+
+// Side handles would break a locked aspect ratio
+const SIDE_CONTROLS = ['ml', 'mr', 'mt', 'mb'];
+
+export interface SlotOptions extends Partial<RectProps> {
+  slotName?: string;
+  aspectRatio?: number | null;
+  fit?: SlotFit;
+}
+
+/**
+ * Dashed box marking where an end user's photo goes. Stored as a `slot` layout
+ * element; in MemeEditor it is hidden while a photo fills it.
+ */
+export class SlotPlaceholder extends Rect {
+  static type = 'Slot';
+
+  declare slotName: string;
+  declare aspectRatio: number | null;
+  declare fit: SlotFit;
+
+  constructor({ slotName = 'Photo', aspectRatio = null, fit = 'cover', ...options }: SlotOptions = {}) {
+    super({
+      fill: 'rgba(148, 163, 184, 0.25)',
+      stroke: SLOT_STROKE,
+      strokeWidth: 2,
+      strokeDashArray: [8, 6],
+      strokeUniform: true,
+      // The label is drawn at screen size, so skip the scaled cache
+      objectCaching: false,
+      ...options,
+    });
+    this.slotName = slotName;
+    this.aspectRatio = aspectRatio;
+    this.fit = fit;
+  }
+
+  isControlVisible(controlKey: string) {
+    if (this.aspectRatio && SIDE_CONTROLS.includes(controlKey)) return false;
+    return super.isControlVisible(controlKey);
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx);
+    ctx.save();
+    // Undo the object's scale and the canvas zoom so the label reads at a fixed size
+    const zoom = this.canvas?.getZoom() ?? 1;
+    ctx.scale(1 / ((this.scaleX || 1) * zoom), 1 / ((this.scaleY || 1) * zoom));
+    ctx.fillStyle = this.stroke === SLOT_HIGHLIGHT_STROKE ? SLOT_HIGHLIGHT_STROKE : '#334155';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = '600 14px Arial';
+    ctx.fillText(this.slotName, 0, -9);
+    ctx.font = '12px Arial';
+    ctx.fillText('Add your photo', 0, 9);
+    ctx.restore();
+  }
+}
+
+export const isSlotPlaceholder = (obj: FabricObject | undefined | null): obj is SlotPlaceholder =>
+  obj instanceof SlotPlaceholder;
+
+export const setSlotHighlight = (slot: SlotPlaceholder, highlighted: boolean) => {
+  slot.set({ stroke: highlighted ? SLOT_HIGHLIGHT_STROKE : SLOT_STROKE });
+};
+
+// Keeps scaleY in step with scaleX while a ratio-locked slot is resized
+export const enforceSlotAspectRatio = (slot: SlotPlaceholder) => {
+  if (!slot.aspectRatio || !slot.height) return;
+  slot.scaleY = (slot.width * slot.scaleX) / (slot.height * slot.aspectRatio);
+};
+
+// Unscaled box of the slot in canvas units, ignoring the stroke
+const getSlotBox = (slot: SlotPlaceholder) => ({
+  width: slot.width * slot.scaleX,
+  height: slot.height * slot.scaleY,
+});
+
+/** Position and scale that centre a photo in its slot using the slot's fit mode */
+export const getSlotPhotoFit = (img: FabricImage, slot: SlotPlaceholder) => {
+  const box = getSlotBox(slot);
+  const widthRatio = box.width / (img.width || 1);
+  const heightRatio = box.height / (img.height || 1);
+  const scale = slot.fit === 'contain' ? Math.min(widthRatio, heightRatio) : Math.max(widthRatio, heightRatio);
+  const center = slot.getCenterPoint();
+  return { left: center.x, top: center.y, scaleX: scale, scaleY: scale };
+};
+
+/**
+ * Clips a photo to the slot without moving it, e.g. when restoring a saved meme. The
+ * clip path is positioned absolutely, so moving or scaling the photo pans and zooms
+ * it inside the slot.
+ */
+export const clipPhotoToSlot = (img: FabricImage, slot: SlotPlaceholder) => {
+  img.set({
+    lockRotation: true,
+    lockSkewingX: true,
+    lockSkewingY: true,
+    clipPath: new Rect({
+      left: slot.left,
+      top: slot.top,
+      width: slot.width,
+      height: slot.height,
+      scaleX: slot.scaleX,
+      scaleY: slot.scaleY,
+      angle: slot.angle,
+      originX: slot.originX,
+      originY: slot.originY,
+      skewX: slot.skewX,
+      skewY: slot.skewY,
+      absolutePositioned: true,
+    }),
+  });
+  img.setControlsVisibility({ mtr: false, ml: false, mr: false, mt: false, mb: false });
+  img.setCoords();
+};
+
+/** Clips a new photo to the slot and fits it using the slot's fit mode */
+export const attachPhotoToSlot = (img: FabricImage, slot: SlotPlaceholder) => {
+  img.set({
+    originX: 'center',
+    originY: 'center',
+    angle: slot.angle,
+    flipX: false,
+    flipY: false,
+    ...getSlotPhotoFit(img, slot),
+  });
+  clipPhotoToSlot(img, slot);
+};
+
+/** Scales a slot photo by `factor` around a canvas point, e.g. the mouse position */
+export const zoomSlotPhoto = (img: FabricImage, factor: number, point: Point) => {
+  const scale = Math.min(Math.max(img.scaleX * factor, 0.05), 20);
+  const applied = scale / img.scaleX;
+  img.set({
+    left: point.x + (img.left - point.x) * applied,
+    top: point.y + (img.top - point.y) * applied,
+    scaleX: scale,
+    scaleY: scale,
+  });
+  img.setCoords();
+};
@@ -0,0 +1,167 @@
+import { Canvas as FabricCanvas, FabricObject, TBBox } from "fabric";
+import { getSceneSize } from "./viewport";
+
+/** On-screen aids the editors share; none of them appear in exports */
+export interface GuideSettings {
+  /** Snap to the canvas edges and centre lines */
+  snapToCanvas: boolean;
+  /** Snap to other objects' edges and centres */
+  snapToObjects: boolean;
+  showGrid: boolean;
+  /** Grid spacing in output pixels */
+  gridSize: number;
+  showRulers: boolean;
+}
+
+export const DEFAULT_GUIDE_SETTINGS: GuideSettings = {
+  snapToCanvas: true,
+  snapToObjects: true,
+  showGrid: false,
+  gridSize: 60,
+  showRulers: false,
+};
+
+// Steps that divide 1080, so the grid lines up with the edges of the standard sizes
+export const GRID_SIZES = [20, 30, 60, 90, 120];
+
+// How close, in screen pixels, an edge or centre has to come before it snaps
+export const SNAP_DISTANCE = 6;
+
+const GUIDE_COLOR = '#ec4899';
+const GRID_COLOR = 'rgba(100, 116, 139, 0.3)';
+
+type Axis = 'x' | 'y';
+
+// A vertical line at x = position (axis 'x') or a horizontal one at y = position
+interface Guide {
+  axis: Axis;
+  position: number;
+}
+
+// Start, centre and end of a box along an axis
+const getSnapLines = (box: TBBox, axis: Axis) =>
+  axis === 'x'
+    ? [box.left, box.left + box.width / 2, box.left + box.width]
+    : [box.top, box.top + box.height / 2, box.top + box.height];
+
+// Smallest move that puts one of `lines` on one of `targets`, if any is within `distance`
+const findSnapOffset = (lines: number[], targets: number[], distance: number) => {
+  let best: number | null = null;
+  for (const line of lines) {
+    for (const target of targets) {
+      const offset = target - line;
+      if (Math.abs(offset) <= distance && (best === null || Math.abs(offset) < Math.abs(best))) best = offset;
+    }
+  }
+  return best;
+};
+
+const getSnapTargets = (canvas: FabricCanvas, target: FabricObject, settings: GuideSettings) => {
+  const targets: Record<Axis, number[]> = { x: [], y: [] };
+  if (settings.snapToCanvas) {
+    const { width, height } = getSceneSize(canvas);
+    targets.x.push(0, width / 2, width);
+    targets.y.push(0, height / 2, height);
+  }
+  if (settings.snapToObjects) {
+    const moving = new Set([target, ...canvas.getActiveObjects()]);
+    canvas
+      .getObjects()
+      .filter((obj) => obj.visible && !moving.has(obj))
+      .forEach((obj) => {
+        const box = obj.getBoundingRect();
+        targets.x.push(...getSnapLines(box, 'x'));
+        targets.y.push(...getSnapLines(box, 'y'));
+      });
+  }
+  return targets;
+};
+
+/**
+ * Snaps dragged objects to the canvas and to each other and draws pink guides where
+ * they line up, and draws the grid. Returns a cleanup function.
+ */
+export const watchGuides = (canvas: FabricCanvas, settings: GuideSettings) => {
+  let guides: Guide[] = [];
+
+  const onMoving = ({ target }: { target: FabricObject }) => {
+    guides = [];
+    if (!settings.snapToCanvas && !settings.snapToObjects) return;
+
+    const targets = getSnapTargets(canvas, target, settings);
+    const distance = SNAP_DISTANCE / canvas.getZoom();
+    const box = target.getBoundingRect();
+    const dx = findSnapOffset(getSnapLines(box, 'x'), targets.x, distance) ?? 0;
+    const dy = findSnapOffset(getSnapLines(box, 'y'), targets.y, distance) ?? 0;
+    if (dx !== 0 || dy !== 0) {
+      target.set({ left: target.left + dx, top: target.top + dy });
+      target.setCoords();
+    }
+
+    // Every line the snapped box now sits on, as several targets can line up at once
+    const snapped = target.getBoundingRect();
+    (['x', 'y'] as const).forEach((axis) => {
+      const lines = getSnapLines(snapped, axis);
+      new Set(targets[axis]).forEach((position) => {
+        if (lines.some((line) => Math.abs(line - position) < 0.5)) guides.push({ axis, position });
+      });
+    });
+  };
+
+  const clearGuides = () => {
+    if (guides.length === 0) return;
+    guides = [];
+    canvas.requestRenderAll();
+  };
+
+  const draw = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+    // Exports render to their own context, so they never get the grid or guides
+    if (ctx !== canvas.getContext()) return;
+    const { width, height } = getSceneSize(canvas);
+    const zoom = canvas.getZoom();
+    ctx.save();
+    ctx.transform(...canvas.viewportTransform);
+    ctx.lineWidth = 1 / zoom;
+
+    if (settings.showGrid && settings.gridSize > 0) {
+      ctx.strokeStyle = GRID_COLOR;
+      ctx.beginPath();
+      for (let x = settings.gridSize; x < width; x += settings.gridSize) {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      }
+      for (let y = settings.gridSize; y < height; y += settings.gridSize) {
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+      ctx.stroke();
+    }
+
+    if (guides.length > 0) {
+      ctx.strokeStyle = GUIDE_COLOR;
+      ctx.beginPath();
+      guides.forEach(({ axis, position }) => {
+        if (axis === 'x') {
+          ctx.moveTo(position, 0);
+          ctx.lineTo(position, height);
+        } else {
+          ctx.moveTo(0, position);
+          ctx.lineTo(width, position);
+        }
+      });
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  canvas.on('object:moving', onMoving);
+  canvas.on('mouse:up', clearGuides);
+  canvas.on('after:render', draw);
+  canvas.requestRenderAll();
+  return () => {
+    canvas.off('object:moving', onMoving);
+    canvas.off('mouse:up', clearGuides);
+    canvas.off('after:render', draw);
+    canvas.requestRenderAll();
+  };
+};
@@ -0,0 +1,56 @@
+export const TEMPLATE_ASSETS_BUCKET = 'template-assets';
+
+const PUBLIC_PATH_MARKER = `/storage/v1/object/public/${TEMPLATE_ASSETS_BUCKET}/`;
+
+// Object path inside the template-assets bucket for one of its public URLs; null for anything else
+export const getTemplateAssetPath = (url: string | null | undefined): string | null => {
+  if (!url) return null;
+  const index = url.indexOf(PUBLIC_PATH_MARKER);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + PUBLIC_PATH_MARKER.length).split('?')[0]);
+};
+
+// Unique object path in the same shape TemplateCreator uses, e.g. thumbnails/thumbnails-<time>-<random>.png
+export const generateAssetPath = (folder: string, extension: string) => {
+  const randomString = Math.random().toString(36).substring(2, 15);
+  return `${folder}/${folder}-${Date.now()}-${randomString}.${extension}`;
+};
+
+// Saved memes keep their assets in the user's own folder, which storage policies check
+export const USER_MEMES_FOLDER = 'user-memes';
+
+export const generateUserMemeAssetPath = (userId: string, extension: string) => {
+  const randomString = Math.random().toString(36).substring(2, 15);
+  return `${USER_MEMES_FOLDER}/${userId}/${Date.now()}-${randomString}.${extension}`;
+};
+
+/**
+ * Every template-assets object referenced by the given values. Walks nested objects and
+ * arrays, and JSON-encoded strings, so it works on any stored layout format.
+ */
+export const collectTemplateAssetPaths = (...values: unknown[]): string[] => {
+  const paths = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          visit(JSON.parse(trimmed));
+          return;
+        } catch {
+          // Not JSON, treat it as a plain string
+        }
+      }
+      const path = getTemplateAssetPath(trimmed);
+      if (path) paths.add(path);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  values.forEach(visit);
+  return [...paths];
+};
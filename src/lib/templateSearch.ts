@@ -0,0 +1,26 @@
+export type TemplateSort = 'newest' | 'name' | 'popular';
+
+export const TEMPLATE_SORT_OPTIONS: { value: TemplateSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'name', label: 'Name' },
+  { value: 'popular', label: 'Most used' },
+];
+
+export const isTemplateSort = (value: string | null): value is TemplateSort =>
+  TEMPLATE_SORT_OPTIONS.some((option) => option.value === value);
+
+// Comma-separated tag input as a list of tags
+export const parseTags = (value: string) =>
+  value.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+/**
+ * Turns free text into a to_tsquery expression where every word must match as a
+ * prefix, so "dra poin" finds "Drake Pointing". Returns null when nothing searchable is left.
+ */
+export const buildPrefixQuery = (input: string): string | null => {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/[^\p{L}\p{N}_]/gu, '').toLowerCase())
+    .filter(Boolean);
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(' & ') : null;
+};
@@ -0,0 +1,63 @@
+import { FabricImage, StaticCanvas } from "fabric";
+import type { LayoutDefinition } from "./layout";
+import { createObjectFromElement } from "./fabricLayout";
+import { CanvasSize, renderAtOutputSize } from "./viewport";
+
+// Fraction of the output resolution thumbnails are rendered at
+export const THUMBNAIL_MULTIPLIER = 0.3;
+
+/** Encodes what a canvas shows as a scaled-down PNG of its `size` output */
+export const renderCanvasThumbnail = (
+  canvas: StaticCanvas,
+  size: CanvasSize,
+  multiplier = THUMBNAIL_MULTIPLIER
+): Promise<Blob> => {
+  const output = renderAtOutputSize(canvas, size, multiplier);
+  return new Promise<Blob>((resolve, reject) => {
+    output.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode thumbnail'))), 'image/png');
+  });
+};
+
+/**
+ * Renders a layout off-screen into a PNG thumbnail. Elements whose assets fail to
+ * load are skipped rather than failing the whole render.
+ */
+export const renderLayoutThumbnail = async (
+  layout: LayoutDefinition,
+  multiplier = THUMBNAIL_MULTIPLIER
+): Promise<Blob> => {
+  const canvas = new StaticCanvas(undefined, {
+    width: layout.canvas.width,
+    height: layout.canvas.height,
+    backgroundColor: layout.canvas.backgroundColor,
+  });
+
+  try {
+    if (layout.canvas.backgroundImage) {
+      try {
+        const img = await FabricImage.fromURL(layout.canvas.backgroundImage, { crossOrigin: 'anonymous' });
+        img.set({
+          scaleX: layout.canvas.width / (img.width || 1),
+          scaleY: layout.canvas.height / (img.height || 1),
+        });
+        canvas.backgroundImage = img;
+      } catch (error) {
+        console.error('Error loading background image:', error);
+      }
+    }
+
+    for (const element of layout.elements) {
+      try {
+        canvas.add(await createObjectFromElement(element));
+      } catch (error) {
+        console.error(`Error loading ${element.type} element:`, error);
+      }
+    }
+
+    canvas.renderAll();
+    const { width, height } = layout.canvas;
+    return await renderCanvasThumbnail(canvas, { width, height }, multiplier);
+  } finally {
+    canvas.dispose();
+  }
+};
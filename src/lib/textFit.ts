@@ -0,0 +1,82 @@
+import { Canvas as FabricCanvas, FabricObject, IText, Textbox, util } from "fabric";
+import type { TextAutoFit } from "./layout";
+
+export type FittedTextbox = Textbox & { autoFit?: TextAutoFit | null };
+
+export const DEFAULT_AUTO_FIT_RANGE = { minFontSize: 12, maxFontSize: 72 };
+
+export const isAutoFitText = (obj: FabricObject | undefined | null): obj is FittedTextbox =>
+  obj instanceof Textbox && !!(obj as FittedTextbox).autoFit;
+
+/**
+ * Sets the largest whole font size within the auto-fit range at which the text fits
+ * the box without wrapping words wider than it. Returns true if the size changed.
+ */
+export const fitTextToBox = (textbox: FittedTextbox) => {
+  const { autoFit } = textbox;
+  if (!autoFit) return false;
+
+  // Textbox widens itself to fit long words, so remember the width the author set
+  const boxWidth = textbox.width;
+  const originalSize = textbox.fontSize;
+  const fits = (fontSize: number) => {
+    textbox.set({ fontSize, width: boxWidth });
+    return textbox.width <= boxWidth + 0.5 && textbox.height <= autoFit.boxHeight + 0.5;
+  };
+
+  let low = Math.ceil(autoFit.minFontSize);
+  let high = Math.floor(autoFit.maxFontSize);
+  let best = low;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (fits(mid)) {
+      best = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  textbox.set({ fontSize: best, width: boxWidth });
+  textbox.setCoords();
+  return best !== originalSize;
+};
+
+// Refits every auto-fit textbox, e.g. after undo restored older text
+export const refitAllText = (canvas: FabricCanvas) => {
+  canvas.getObjects().filter(isAutoFitText).forEach((textbox) => fitTextToBox(textbox));
+  canvas.requestRenderAll();
+};
+
+/**
+ * Refits auto-fit text as it is typed or resized. With `showBoxes` (for template
+ * authors) the fit box is outlined on screen; it never appears in exports.
+ */
+export const watchAutoFitText = (canvas: FabricCanvas, { showBoxes = false } = {}) => {
+  const refit = ({ target }: { target: FabricObject }) => {
+    if (isAutoFitText(target) && fitTextToBox(target)) canvas.requestRenderAll();
+  };
+  const onTextChanged = ({ target }: { target: IText }) => refit({ target });
+
+  const drawBoxes = ({ ctx }: { ctx: CanvasRenderingContext2D }) => {
+    if (ctx !== canvas.getContext()) return;
+    canvas.getObjects().filter(isAutoFitText).forEach((textbox) => {
+      ctx.save();
+      ctx.transform(...util.multiplyTransformMatrices(canvas.viewportTransform, textbox.calcTransformMatrix()));
+      ctx.setLineDash([4, 4]);
+      ctx.strokeStyle = '#2563eb';
+      ctx.lineWidth = 1 / Math.max(textbox.scaleX, textbox.scaleY, 0.01);
+      ctx.strokeRect(-textbox.width / 2, -textbox.height / 2, textbox.width, textbox.autoFit.boxHeight);
+      ctx.restore();
+    });
+  };
+
+  canvas.on('text:changed', onTextChanged);
+  canvas.on('object:modified', refit);
+  if (showBoxes) canvas.on('after:render', drawBoxes);
+  return () => {
+    canvas.off('text:changed', onTextChanged);
+    canvas.off('object:modified', refit);
+    canvas.off('after:render', drawBoxes);
+  };
+};
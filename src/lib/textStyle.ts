@@ -0,0 +1,129 @@
+import { Canvas as FabricCanvas, IText, Shadow, Textbox } from "fabric";
+import type { TextAlign, TextShadow } from "./layout";
+import { createPropertyCommand, HistoryCommand } from "./history";
+
+/** Text styling stored on textbox elements, beyond fill colour, font and size */
+export interface TextStyle {
+  strokeColor: string | null;
+  strokeWidth: number;
+  shadow: TextShadow | null;
+  textAlign: TextAlign;
+  lineHeight: number;
+  charSpacing: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  uppercase: boolean;
+  highlightColor: string | null;
+}
+
+// Matches fabric's Textbox defaults, so older elements render as they always did
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  strokeColor: null,
+  strokeWidth: 0,
+  shadow: null,
+  textAlign: 'left',
+  lineHeight: 1.16,
+  charSpacing: 0,
+  bold: false,
+  italic: false,
+  underline: false,
+  uppercase: false,
+  highlightColor: null,
+};
+
+export const DEFAULT_TEXT_SHADOW: TextShadow = { color: 'rgba(0, 0, 0, 0.6)', blur: 4, offsetX: 2, offsetY: 2 };
+
+// White Impact with a black outline
+export const CLASSIC_MEME_STYLE = {
+  fill: '#ffffff',
+  fontFamily: 'Impact',
+  style: {
+    strokeColor: '#000000',
+    strokeWidth: 2,
+    textAlign: 'center',
+    uppercase: true,
+  } satisfies Partial<TextStyle>,
+};
+
+/** Textboxes carry the uppercase flag as a custom property */
+export type StyledTextbox = Textbox & { uppercase?: boolean };
+
+const shadowOf = (textbox: Textbox): TextShadow | null => {
+  const { shadow } = textbox;
+  if (!(shadow instanceof Shadow)) return null;
+  return { color: shadow.color, blur: shadow.blur, offsetX: shadow.offsetX, offsetY: shadow.offsetY };
+};
+
+export const getTextStyle = (textbox: StyledTextbox): TextStyle => ({
+  strokeColor: typeof textbox.stroke === 'string' && textbox.stroke ? textbox.stroke : null,
+  strokeWidth: textbox.stroke ? textbox.strokeWidth : 0,
+  shadow: shadowOf(textbox),
+  textAlign: (['left', 'center', 'right', 'justify'] as const).find((align) => align === textbox.textAlign) ?? 'left',
+  lineHeight: textbox.lineHeight,
+  charSpacing: textbox.charSpacing,
+  bold: textbox.fontWeight === 'bold' || Number(textbox.fontWeight) >= 600,
+  italic: textbox.fontStyle === 'italic',
+  underline: !!textbox.underline,
+  uppercase: !!textbox.uppercase,
+  highlightColor: textbox.textBackgroundColor || null,
+});
+
+/** Fabric options for a (partial) text style */
+export const getTextStyleProps = (style: Partial<TextStyle>): Record<string, unknown> => {
+  const props: Record<string, unknown> = {};
+  if ('strokeColor' in style) props.stroke = style.strokeColor;
+  if ('strokeWidth' in style) props.strokeWidth = style.strokeWidth;
+  // Paint the outline under the fill so thick strokes do not eat into the letters
+  if ('strokeColor' in style || 'strokeWidth' in style) props.paintFirst = 'stroke';
+  if ('shadow' in style) props.shadow = style.shadow ? new Shadow(style.shadow) : null;
+  if ('textAlign' in style) props.textAlign = style.textAlign;
+  if ('lineHeight' in style) props.lineHeight = style.lineHeight;
+  if ('charSpacing' in style) props.charSpacing = style.charSpacing;
+  if ('bold' in style) props.fontWeight = style.bold ? 'bold' : 'normal';
+  if ('italic' in style) props.fontStyle = style.italic ? 'italic' : 'normal';
+  if ('underline' in style) props.underline = style.underline;
+  if ('uppercase' in style) props.uppercase = style.uppercase;
+  if ('highlightColor' in style) props.textBackgroundColor = style.highlightColor ?? '';
+  return props;
+};
+
+/**
+ * Applies style changes (plus any plain fabric props such as fill) to a textbox and
+ * returns the matching undo command. Turning uppercase on converts the existing text.
+ */
+export const applyTextStyle = (
+  canvas: FabricCanvas,
+  textbox: StyledTextbox,
+  style: Partial<TextStyle>,
+  label: string,
+  extraProps: Record<string, unknown> = {}
+): HistoryCommand => {
+  const after = { ...extraProps, ...getTextStyleProps(style) };
+  if (style.uppercase) after.text = textbox.text.toUpperCase();
+  const before = Object.fromEntries(Object.keys(after).map((key) => [key, textbox.get(key)]));
+  textbox.set(after);
+  textbox.setCoords();
+  canvas.requestRenderAll();
+  return createPropertyCommand(canvas, textbox, before, after, label);
+};
+
+/** Keeps uppercase textboxes in capitals while typing; returns a cleanup function */
+export const watchUppercaseText = (canvas: FabricCanvas) => {
+  const onChanged = ({ target }: { target: IText }) => {
+    const textbox = target as StyledTextbox;
+    if (!textbox.uppercase) return;
+    const upper = textbox.text.toUpperCase();
+    if (upper === textbox.text) return;
+    const { selectionStart, selectionEnd } = textbox;
+    textbox.set({ text: upper });
+    if (textbox.hiddenTextarea) textbox.hiddenTextarea.value = upper;
+    textbox.selectionStart = selectionStart;
+    textbox.selectionEnd = selectionEnd;
+    canvas.requestRenderAll();
+  };
+  canvas.on('text:changed', onChanged);
+  return () => {
+    canvas.off('text:changed', onChanged);
+  };
+};
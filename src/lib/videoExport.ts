@@ -0,0 +1,241 @@
+import type { Canvas as FabricCanvas, FabricImage } from "fabric";
+import { renderSceneInto } from "./viewport";
+
+export interface VideoExportOptions {
+  /** Output width in pixels (rounded to an even number for the encoder) */
+  width: number;
+  /** Output height in pixels (rounded to an even number for the encoder) */
+  height: number;
+  /** Length of the rendered clip in seconds */
+  duration: number;
+  fps?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export interface VideoExportResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+export class VideoExportCancelledError extends Error {
+  constructor() {
+    super('Video export was cancelled');
+    this.name = 'VideoExportCancelledError';
+  }
+}
+
+// Preferred container/codec combinations, best first
+const MIME_CANDIDATES = [
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+export const getSupportedVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+// A seek that takes longer than this is treated as failed
+const SEEK_TIMEOUT_MS = 10_000;
+
+// Resolves once the video shows the frame at `time`; rejects on error, timeout or abort
+const waitForSeek = (video: HTMLVideoElement, time: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new VideoExportCancelledError());
+      return;
+    }
+    if (Math.abs(video.currentTime - time) < 0.001 && video.readyState >= 2) {
+      resolve();
+      return;
+    }
+
+    const settle = (error?: Error) => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onSeeked = () => settle();
+    const onError = () => settle(new Error('A video on the canvas could not be loaded'));
+    const onAbort = () => settle(new VideoExportCancelledError());
+    const timer = setTimeout(() => settle(new Error('A video on the canvas did not respond in time')), SEEK_TIMEOUT_MS);
+
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.currentTime = time;
+  });
+
+type VideoCanvasObject = FabricImage & {
+  isVideo?: boolean;
+  videoElement?: HTMLVideoElement;
+};
+
+interface SwappedVideoObject {
+  obj: VideoCanvasObject;
+  originalElement: ReturnType<FabricImage['getElement']>;
+  objectCaching: boolean;
+}
+
+/**
+ * Renders the fabric canvas into a video file. Every video element on the canvas
+ * is temporarily backed by its live <video> source so each frame composites the
+ * current video frames together with images, text and shapes, in canvas z-order.
+ */
+export const exportCanvasVideo = async (
+  canvas: FabricCanvas,
+  { width, height, duration, fps = 30, signal, onProgress }: VideoExportOptions
+): Promise<VideoExportResult> => {
+  const mimeType = getSupportedVideoMimeType();
+  if (!mimeType) {
+    throw new Error('Video recording is not supported in this browser');
+  }
+  if (!duration || duration <= 0) {
+    throw new Error('Nothing to render: video duration is zero');
+  }
+
+  const outputWidth = toEven(width);
+  const outputHeight = toEven(height);
+
+  const output = document.createElement('canvas');
+  output.width = outputWidth;
+  output.height = outputHeight;
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not create rendering context');
+  }
+
+  // Hide selection borders while rendering
+  const activeObject = canvas.getActiveObject();
+  canvas.discardActiveObject();
+
+  const swapped: SwappedVideoObject[] = canvas
+    .getObjects()
+    .map((obj) => obj as VideoCanvasObject)
+    .filter((obj) => obj.isVideo && obj.videoElement)
+    .map((obj) => ({
+      obj,
+      originalElement: obj.getElement(),
+      objectCaching: obj.objectCaching,
+    }));
+
+  const restore = () => {
+    swapped.forEach(({ obj, originalElement, objectCaching }) => {
+      obj.videoElement.pause();
+      obj.videoElement.currentTime = 0;
+      obj.setElement(originalElement, { width: obj.width, height: obj.height });
+      obj.objectCaching = objectCaching;
+    });
+    if (activeObject) canvas.setActiveObject(activeObject);
+    canvas.requestRenderAll();
+  };
+
+  try {
+    for (const { obj } of swapped) {
+      const video = obj.videoElement;
+      video.pause();
+      // fabric reads the drawable size from width/height on non-image elements
+      video.width = video.videoWidth;
+      video.height = video.videoHeight;
+      await waitForSeek(video, 0, signal);
+      obj.setElement(video, { width: obj.width, height: obj.height });
+      obj.objectCaching = false;
+    }
+
+    if (signal?.aborted) throw new VideoExportCancelledError();
+
+    const stream = output.captureStream(fps);
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: 8_000_000,
+    });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    // Renders straight into the recorded canvas, so frames allocate nothing
+    const drawFrame = () => renderSceneInto(canvas, ctx, { width, height });
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      let frameRequest = 0;
+      let cancelled = false;
+
+      const onAbort = () => {
+        cancelled = true;
+        cancelAnimationFrame(frameRequest);
+        if (recorder.state !== 'inactive') recorder.stop();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      recorder.onstop = () => {
+        signal?.removeEventListener('abort', onAbort);
+        stream.getTracks().forEach((track) => track.stop());
+        if (cancelled) {
+          reject(new VideoExportCancelledError());
+        } else {
+          resolve(new Blob(chunks, { type: mimeType }));
+        }
+      };
+      // The recorder may not fire stop after an error, so tear down here as well
+      recorder.onerror = () => {
+        cancelled = true;
+        cancelAnimationFrame(frameRequest);
+        signal?.removeEventListener('abort', onAbort);
+        stream.getTracks().forEach((track) => track.stop());
+        reject(new Error('Video recording failed'));
+      };
+
+      drawFrame();
+      recorder.start(250);
+      swapped.forEach(({ obj }) => obj.videoElement.play().catch(console.error));
+      const startedAt = performance.now();
+
+      const tick = () => {
+        if (cancelled) return;
+        const elapsed = (performance.now() - startedAt) / 1000;
+        drawFrame();
+        onProgress?.(Math.min(elapsed / duration, 1));
+        if (elapsed >= duration) {
+          recorder.stop();
+          return;
+        }
+        frameRequest = requestAnimationFrame(tick);
+      };
+      frameRequest = requestAnimationFrame(tick);
+    });
+
+    return {
+      blob,
+      mimeType,
+      extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+    };
+  } finally {
+    restore();
+  }
+};
+
+// Trigger a browser download for a generated file
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,100 @@
+import { Canvas as FabricCanvas, FabricObject, StaticCanvas, Textbox } from "fabric";
+
+/** Width and height in pixels */
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+/** Output resolution of new templates, which is also the size they export at */
+export const DEFAULT_OUTPUT_SIZES: Record<'photo' | 'video', CanvasSize> = {
+  photo: { width: 1080, height: 1080 },
+  video: { width: 1080, height: 1920 },
+};
+
+export const getDefaultOutputSize = (type: string): CanvasSize =>
+  type === 'video' ? DEFAULT_OUTPUT_SIZES.video : DEFAULT_OUTPUT_SIZES.photo;
+
+// Default sizes and positions of new elements were picked on a 400px canvas
+const DESIGN_SIZE = 400;
+
+/** Largest size with the aspect ratio of `size` that fits inside `bounds` */
+export const fitCanvasSize = (size: CanvasSize, bounds: CanvasSize): CanvasSize => {
+  const scale = Math.min(bounds.width / size.width, bounds.height / size.height);
+  return {
+    width: Math.max(1, Math.floor(size.width * scale)),
+    height: Math.max(1, Math.floor(size.height * scale)),
+  };
+};
+
+/**
+ * Shows a scene laid out at `output` size in a canvas element of `display` size by
+ * zooming the viewport; element coordinates stay in output pixels.
+ */
+export const setCanvasViewport = (canvas: FabricCanvas, output: CanvasSize, display: CanvasSize) => {
+  const zoom = display.width / output.width;
+  canvas.setDimensions(display);
+  canvas.setViewportTransform([zoom, 0, 0, zoom, 0, 0]);
+  canvas.requestRenderAll();
+};
+
+/** Size of the canvas in scene coordinates, i.e. output pixels */
+export const getSceneSize = (canvas: StaticCanvas): CanvasSize => ({
+  width: canvas.width / canvas.getZoom(),
+  height: canvas.height / canvas.getZoom(),
+});
+
+/**
+ * Renders the scene at exactly `output` × `multiplier` pixels, whatever size the
+ * canvas is shown at. Editing controls and on-screen guides are left out.
+ */
+export const renderAtOutputSize = (canvas: StaticCanvas, output: CanvasSize, multiplier = 1) => {
+  const viewport = canvas.viewportTransform;
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+  try {
+    return canvas.toCanvasElement(multiplier, { width: output.width, height: output.height });
+  } finally {
+    canvas.viewportTransform = viewport;
+    canvas.calcViewportBoundaries();
+  }
+};
+
+/**
+ * Draws the scene, laid out at `scene` size, stretched over the whole canvas behind
+ * `ctx`. Unlike renderAtOutputSize it allocates nothing, so it suits per-frame
+ * rendering; clear selection first, as active object controls are drawn too.
+ */
+export const renderSceneInto = (canvas: StaticCanvas, ctx: CanvasRenderingContext2D, scene: CanvasSize) => {
+  const { viewportTransform, width, height } = canvas;
+  const target = ctx.canvas;
+  canvas.viewportTransform = [target.width / scene.width, 0, 0, target.height / scene.height, 0, 0];
+  // renderCanvas clears, fills the background and culls offscreen objects by these
+  canvas.width = target.width;
+  canvas.height = target.height;
+  try {
+    canvas.renderCanvas(ctx, canvas.getObjects());
+  } finally {
+    canvas.viewportTransform = viewportTransform;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.calcViewportBoundaries();
+  }
+};
+
+/**
+ * Scales a new element, created with sizes meant for a 400px canvas, so it takes the
+ * same share of a canvas with the given output size. Text gets a larger font rather
+ * than a scale, so its font size reads in output pixels.
+ */
+export const scaleNewObject = <T extends FabricObject>(obj: T, output: CanvasSize): T => {
+  const factor = Math.min(output.width, output.height) / DESIGN_SIZE;
+  if (obj instanceof Textbox) {
+    obj.set({ fontSize: Math.round(obj.fontSize * factor), width: obj.width * factor });
+    obj.initDimensions();
+  } else {
+    obj.set({ scaleX: obj.scaleX * factor, scaleY: obj.scaleY * factor });
+  }
+  obj.set({ left: obj.left * factor, top: obj.top * factor });
+  obj.setCoords();
+  return obj;
+};
@@ -0,0 +1,9 @@
+-- Admin login now goes through Supabase Auth. Create admin accounts under
+-- Authentication > Users and keep public sign-ups disabled for the project.
+
+-- Stop exposing password hashes to every visitor
+DROP POLICY IF EXISTS "Admin credentials are accessible for authentication" ON public.admin_credentials;
+REVOKE ALL ON public.admin_credentials FROM anon, authenticated;
+
+-- The seeded admin/admin123 row is no longer used for anything
+DELETE FROM public.admin_credentials WHERE username = 'admin';
@@ -0,0 +1,113 @@
+-- Role model: every auth user gets a profile, and only profiles with the
+-- admin role may change templates or template assets.
+CREATE TYPE public.app_role AS ENUM ('admin', 'user');
+
+CREATE TABLE public.profiles (
+  id UUID NOT NULL PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  email TEXT,
+  role public.app_role NOT NULL DEFAULT 'user',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies can check the role without recursing into profiles RLS
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- Users can read their own profile, admins can read all of them.
+-- Roles are only changed with the service role (dashboard or SQL editor).
+CREATE POLICY "Users can view their own profile"
+ON public.profiles
+FOR SELECT
+USING (auth.uid() = id OR public.is_admin());
+
+CREATE TRIGGER update_profiles_updated_at
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create a profile for every new auth user
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email)
+  VALUES (NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_new_user();
+
+-- Existing accounts start as regular users. Promote admins afterwards with the
+-- service role, for example in the SQL editor:
+--   UPDATE public.profiles SET role = 'admin' WHERE email = 'admin@example.com';
+INSERT INTO public.profiles (id, email, role)
+SELECT id, email, 'user' FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Restrict template mutations to admins
+DROP POLICY IF EXISTS "Admin can insert templates" ON public.templates;
+DROP POLICY IF EXISTS "Admin can update templates" ON public.templates;
+DROP POLICY IF EXISTS "Admin can delete templates" ON public.templates;
+
+CREATE POLICY "Admin can insert templates"
+ON public.templates
+FOR INSERT
+TO authenticated
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin can update templates"
+ON public.templates
+FOR UPDATE
+TO authenticated
+USING (public.is_admin())
+WITH CHECK (public.is_admin());
+
+CREATE POLICY "Admin can delete templates"
+ON public.templates
+FOR DELETE
+TO authenticated
+USING (public.is_admin());
+
+-- Restrict template asset mutations to admins
+DROP POLICY IF EXISTS "Admin can upload template assets" ON storage.objects;
+DROP POLICY IF EXISTS "Admin can update template assets" ON storage.objects;
+DROP POLICY IF EXISTS "Admin can delete template assets" ON storage.objects;
+
+CREATE POLICY "Admin can upload template assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'template-assets' AND public.is_admin());
+
+CREATE POLICY "Admin can update template assets"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (bucket_id = 'template-assets' AND public.is_admin())
+WITH CHECK (bucket_id = 'template-assets' AND public.is_admin());
+
+CREATE POLICY "Admin can delete template assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'template-assets' AND public.is_admin());
@@ -0,0 +1,45 @@
+-- Search, tag filtering and popularity sorting for the template grid
+
+-- Number of memes downloaded from each template
+ALTER TABLE public.templates
+ADD COLUMN use_count INTEGER NOT NULL DEFAULT 0;
+
+-- array_to_string is only STABLE, so wrap it for use in a generated column
+CREATE OR REPLACE FUNCTION public.template_search_text(name TEXT, tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(name, '') || ' ' || coalesce(array_to_string(tags, ' '), '');
+$$;
+
+-- 'simple' config: template names are mostly proper nouns, so skip stemming
+ALTER TABLE public.templates
+ADD COLUMN search_vector tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', public.template_search_text(name, tags))) STORED;
+
+CREATE INDEX templates_search_vector_idx ON public.templates USING GIN (search_vector);
+CREATE INDEX templates_tags_idx ON public.templates USING GIN (tags);
+CREATE INDEX templates_type_use_count_idx ON public.templates (type, use_count DESC);
+
+-- Recording a use is not an edit, so don't bump updated_at for it
+DROP TRIGGER IF EXISTS update_templates_updated_at ON public.templates;
+CREATE TRIGGER update_templates_updated_at
+BEFORE UPDATE ON public.templates
+FOR EACH ROW
+WHEN (OLD.use_count IS NOT DISTINCT FROM NEW.use_count)
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Anyone may record a use, but only through this function, never a direct update
+CREATE OR REPLACE FUNCTION public.increment_template_use(template_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.templates
+  SET use_count = use_count + 1
+  WHERE id = template_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_template_use(UUID) TO anon, authenticated;
@@ -0,0 +1,69 @@
+-- "My Memes": editable memes saved by signed-in users. Assets they upload go to
+-- template-assets under user-memes/<user id>/ so policies can check ownership.
+CREATE TABLE public.user_memes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  -- Kept when the template is deleted; the meme's layout is self-contained
+  template_id UUID REFERENCES public.templates (id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('photo', 'video')),
+  layout_definition JSONB NOT NULL,
+  thumbnail_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX user_memes_user_id_updated_at_idx ON public.user_memes (user_id, updated_at DESC);
+
+ALTER TABLE public.user_memes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memes"
+ON public.user_memes
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can save their own memes"
+ON public.user_memes
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own memes"
+ON public.user_memes
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own memes"
+ON public.user_memes
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_memes_updated_at
+BEFORE UPDATE ON public.user_memes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Users manage objects in their own folder; reads stay public like the rest of the bucket
+CREATE POLICY "Users can upload their own meme assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'template-assets'
+  AND (storage.foldername(name))[1] = 'user-memes'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own meme assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'template-assets'
+  AND (storage.foldername(name))[1] = 'user-memes'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+);
@@ -0,0 +1,41 @@
+-- Public sign-ups are allowed again: anyone may create a user account to save
+-- memes, and only accounts promoted to the admin role can manage templates.
+-- This replaces the advice in 20251019090000 to keep sign-ups disabled.
+
+-- Saved memes are not self-contained: their layouts keep pointing at the
+-- template-assets files of the template they started from. Each meme records
+-- the files it uses so template cleanup can leave them in place.
+ALTER TABLE public.user_memes
+ADD COLUMN asset_paths TEXT[] NOT NULL DEFAULT '{}';
+
+-- Backfill from the public URLs already stored in layouts
+UPDATE public.user_memes AS meme
+SET asset_paths = ARRAY(
+  SELECT DISTINCT match[1]
+  FROM regexp_matches(
+    meme.layout_definition::text,
+    '/storage/v1/object/public/template-assets/([^"?\\]+)',
+    'g'
+  ) AS match
+);
+
+CREATE INDEX user_memes_asset_paths_idx ON public.user_memes USING GIN (asset_paths);
+
+-- Row-level security hides other users' memes from admins, so template cleanup
+-- asks this function which of its files are still in use
+CREATE OR REPLACE FUNCTION public.user_meme_asset_paths(paths TEXT[])
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT path
+  FROM public.user_memes, unnest(asset_paths) AS path
+  WHERE public.is_admin()
+    AND asset_paths && paths
+    AND path = ANY (paths);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_meme_asset_paths(TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.user_meme_asset_paths(TEXT[]) TO authenticated;
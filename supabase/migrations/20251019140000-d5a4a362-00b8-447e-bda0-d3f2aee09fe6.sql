@@ -0,0 +1,3 @@
+-- Copies made with "Resize to…" point back at the template they were resized from
+ALTER TABLE public.templates
+ADD COLUMN source_template_id UUID REFERENCES public.templates (id) ON DELETE SET NULL;